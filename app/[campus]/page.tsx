@@ -0,0 +1,25 @@
+import type { Metadata } from "next"
+import { notFound } from "next/navigation"
+import CampusView from "@/components/campus-view"
+import { campuses, getCampus } from "@/lib/campuses"
+
+interface CampusPageProps {
+  params: Promise<{ campus: string }>
+}
+
+export function generateStaticParams() {
+  return campuses.map((campus) => ({ campus: campus.id }))
+}
+
+export async function generateMetadata({ params }: CampusPageProps): Promise<Metadata> {
+  const campus = getCampus((await params).campus)
+  return campus ? { title: `${campus.name} - Adaptive Campus Navigator`, description: campus.branding.tagline } : {}
+}
+
+export default async function CampusPage({ params }: CampusPageProps) {
+  const campus = getCampus((await params).campus)
+  if (!campus) notFound()
+
+  // Keyed so switching campus starts a fresh map and conversation
+  return <CampusView key={campus.id} campusId={campus.id} />
+}
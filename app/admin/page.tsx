@@ -0,0 +1,49 @@
+import type { Metadata } from "next"
+import Link from "next/link"
+import { notFound } from "next/navigation"
+import DatasetEditor from "@/components/dataset-editor"
+import { campuses, DEFAULT_CAMPUS_ID, getCampus } from "@/lib/campuses"
+
+export const metadata: Metadata = {
+  title: "Campus editor - Adaptive Campus Navigator",
+}
+
+interface AdminPageProps {
+  searchParams: Promise<{ campus?: string }>
+}
+
+export default async function AdminPage({ searchParams }: AdminPageProps) {
+  const campus = getCampus((await searchParams).campus ?? DEFAULT_CAMPUS_ID)
+  if (!campus) notFound()
+
+  return (
+    <main className="min-h-screen bg-background">
+      <div className="container mx-auto p-4 md:p-6 lg:p-8">
+        <div className="mb-6 space-y-2">
+          <h1 className="text-3xl md:text-4xl font-bold text-foreground">Campus editor</h1>
+          <p className="text-muted-foreground text-balance">
+            Edit the locations and walkways of {campus.name}, preview routes, and save the dataset back to{" "}
+            <code>data/campuses/{campus.id}.json</code> (development only) or export it.
+          </p>
+          <nav className="flex flex-wrap gap-3 text-sm" aria-label="Campuses">
+            {campuses.map((other) => (
+              <Link
+                key={other.id}
+                href={`/admin?campus=${other.id}`}
+                className={other.id === campus.id ? "font-semibold" : "underline underline-offset-4"}
+              >
+                {other.branding.logo} {other.name}
+              </Link>
+            ))}
+            <Link href={`/${campus.id}`} className="underline underline-offset-4 ml-auto">
+              Open the map
+            </Link>
+          </nav>
+        </div>
+
+        {/* Keyed so switching campus starts a fresh editor */}
+        <DatasetEditor key={campus.id} campusId={campus.id} />
+      </div>
+    </main>
+  )
+}
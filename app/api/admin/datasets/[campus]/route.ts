@@ -0,0 +1,52 @@
+import { NextResponse } from "next/server"
+import { getCampus } from "@/lib/campuses"
+import { CampusDataError } from "@/lib/campus-schema"
+import { readCampusDataset, writeCampusDataset } from "@/lib/dataset-store"
+
+interface DatasetRouteContext {
+  params: Promise<{ campus: string }>
+}
+
+// The files on disk are the source of truth only while developing; deployed builds are read-only
+function storageUnavailable(): NextResponse | null {
+  if (process.env.NODE_ENV === "development") return null
+  return NextResponse.json({ error: "Dataset storage is only available in development" }, { status: 403 })
+}
+
+export async function GET(_request: Request, { params }: DatasetRouteContext) {
+  const unavailable = storageUnavailable()
+  if (unavailable) return unavailable
+
+  const { campus } = await params
+  if (!getCampus(campus)) {
+    return NextResponse.json({ error: `Unknown campus "${campus}"` }, { status: 404 })
+  }
+  return NextResponse.json(await readCampusDataset(campus))
+}
+
+export async function PUT(request: Request, { params }: DatasetRouteContext) {
+  const unavailable = storageUnavailable()
+  if (unavailable) return unavailable
+
+  const { campus } = await params
+  if (!getCampus(campus)) {
+    return NextResponse.json({ error: `Unknown campus "${campus}"` }, { status: 404 })
+  }
+
+  let body: unknown
+  try {
+    body = await request.json()
+  } catch {
+    return NextResponse.json({ error: "Request body must be JSON" }, { status: 400 })
+  }
+
+  try {
+    await writeCampusDataset(campus, body)
+  } catch (error) {
+    if (error instanceof CampusDataError) {
+      return NextResponse.json({ error: "Invalid campus dataset", issues: error.issues }, { status: 400 })
+    }
+    throw error
+  }
+  return NextResponse.json({ saved: true })
+}
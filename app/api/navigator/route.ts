@@ -0,0 +1,59 @@
+import { NextResponse } from "next/server"
+import { z } from "zod"
+import { getCampus } from "@/lib/campuses"
+import { localNavigatorProvider, sanitizeIntent, type NavigatorProvider } from "@/lib/navigator"
+import { createLLMNavigatorProvider } from "@/lib/navigator-llm"
+import { wallClockTime } from "@/lib/opening-hours"
+
+const requestSchema = z.object({
+  // Registry id of the campus the conversation is about
+  campus: z.string(),
+  messages: z
+    .array(
+      z.object({
+        role: z.enum(["user", "assistant"]),
+        content: z.string().max(2000),
+      }),
+    )
+    .min(1)
+    .max(50),
+})
+
+// NAVIGATOR_PROVIDER=llm plus an API key switches to the model; everything else uses the local stub
+function getNavigatorProvider(): NavigatorProvider {
+  const apiKey = process.env.NAVIGATOR_LLM_API_KEY
+  if (process.env.NAVIGATOR_PROVIDER === "llm" && apiKey) {
+    return createLLMNavigatorProvider({
+      apiKey,
+      model: process.env.NAVIGATOR_LLM_MODEL || "gpt-4o-mini",
+      baseUrl: process.env.NAVIGATOR_LLM_BASE_URL || "https://api.openai.com/v1",
+    })
+  }
+  return localNavigatorProvider
+}
+
+export async function POST(request: Request) {
+  let body: unknown
+  try {
+    body = await request.json()
+  } catch {
+    return NextResponse.json({ error: "Request body must be JSON" }, { status: 400 })
+  }
+
+  const parsed = requestSchema.safeParse(body)
+  if (!parsed.success) {
+    return NextResponse.json({ error: "Invalid navigator request", issues: parsed.error.issues }, { status: 400 })
+  }
+
+  const campus = getCampus(parsed.data.campus)
+  if (!campus) {
+    return NextResponse.json({ error: `Unknown campus "${parsed.data.campus}"` }, { status: 404 })
+  }
+
+  const provider = getNavigatorProvider()
+  // Opening hours are the campus's local times, whatever zone this server runs in
+  const time = wallClockTime(campus.timeZone)
+  const intent = await provider.interpret({ messages: parsed.data.messages, campus: campus.data, time })
+
+  return NextResponse.json({ intent: sanitizeIntent(intent, campus.data), provider: provider.name })
+}
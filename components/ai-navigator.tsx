@@ -6,19 +6,38 @@ import { useState, useEffect } from "react"
 import { Card } from "@/components/ui/card"
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
-import { campusData, type Location } from "@/lib/campus-data"
+import type { Location } from "@/lib/campus-data"
+import type { Campus } from "@/lib/campuses"
+import { ASK_DESTINATION_REPLY, type NavigatorIntent } from "@/lib/navigator"
+import { bestGate, describeArrival, formatDistance, isOnCampus } from "@/lib/geofence"
+import { wallClockTime } from "@/lib/opening-hours"
+import { pathDistance, type RouteEndpoint } from "@/lib/path-network"
+import { resolveRoute } from "@/lib/route-resolver"
+import { formatDuration, type TravelProfile } from "@/lib/walking-time"
 import { Send, Sparkles, MapPin, Navigation2 } from "lucide-react"
 
 interface AINavigatorProps {
+  campus: Campus
   onLocationFound: (location: Location) => void
-  onRouteRequest: (route: { from: string; to: string }) => void
+  onLocationsFound: (locations: Location[]) => void
+  // `gate` is set for routes in from off campus, which start at the gate's location
+  onRouteRequest: (route: { from: RouteEndpoint; to: string; gate?: string }) => void
+  // Persona and pace the map routes with, so replies can quote the same walking time, and how the user arrives
+  travelProfile?: TravelProfile
 }
 
 interface Message {
   type: "user" | "ai"
   text: string
+  // Pending route whose origin or destination the user still has to pick
+  clarify?: { from: string[]; to: string[] }
+  // Ranked matches shown as result cards the user can route to
+  results?: string[]
 }
 
+// How many recent messages are sent to the navigator as conversation context
+const MAX_HISTORY = 20
+
 function calculateDistance(lat1: number, lon1: number, lat2: number, lon2: number): number {
   const R = 6371e3 // Earth's radius in meters
   const φ1 = (lat1 * Math.PI) / 180
@@ -32,7 +51,13 @@ function calculateDistance(lat1: number, lon1: number, lat2: number, lon2: numbe
   return R * c // Distance in meters
 }
 
-export default function AINavigator({ onLocationFound, onRouteRequest }: AINavigatorProps) {
+export default function AINavigator({
+  campus,
+  onLocationFound,
+  onLocationsFound,
+  onRouteRequest,
+  travelProfile = { persona: "new-student", mobility: "standard", arrival: { mode: "pedestrian", user: "students" } },
+}: AINavigatorProps) {
   const [query, setQuery] = useState("")
   const [messages, setMessages] = useState<Message[]>([
     {
@@ -42,6 +67,7 @@ export default function AINavigator({ onLocationFound, onRouteRequest }: AINavig
   ])
   const [userLocation, setUserLocation] = useState<{ lat: number; lng: number } | null>(null)
   const [locationPermission, setLocationPermission] = useState<"granted" | "denied" | "prompt">("prompt")
+  const [isThinking, setIsThinking] = useState(false)
 
   useEffect(() => {
     if ("geolocation" in navigator) {
@@ -62,97 +88,153 @@ export default function AINavigator({ onLocationFound, onRouteRequest }: AINavig
     }
   }, [])
 
-  const findNearestLocation = (userLat: number, userLng: number): Location | null => {
-    let nearestLocation: Location | null = null
-    let minDistance = Number.POSITIVE_INFINITY
+  // "It's about 430m - roughly 7 min at your pace.", or nothing when there's no walkable route
+  const walkingTimeSentence = (from: RouteEndpoint, to: string): string => {
+    const route = resolveRoute(campus.data, from, to, travelProfile.persona, {
+      mobility: travelProfile.mobility,
+      time: wallClockTime(campus.timeZone),
+    })
+    if (!route) return ""
+    return ` It's about ${Math.round(pathDistance(route.path))}m - roughly ${formatDuration(route.duration)} at your pace.`
+  }
 
-    campusData.locations.forEach((location) => {
-      const distance = calculateDistance(userLat, userLng, location.lat, location.lng)
-      if (distance < minDistance) {
-        minDistance = distance
-        nearestLocation = location
-      }
+  // Off campus there are no walkways to snap onto, so the route starts at the best open gate instead
+  const routeFromOffCampus = (from: { lat: number; lng: number }, destination: Location, intro: string): string => {
+    const entry = bestGate(campus.data, from, travelProfile.arrival, {
+      destination: destination.name,
+      time: wallClockTime(campus.timeZone),
     })
+    if (!entry) {
+      return `${intro} You're outside ${campus.name}, and none of its gates are open to ${describeArrival(travelProfile.arrival)} right now.`
+    }
+
+    const { gate, location } = entry
+    const away = `You're outside ${campus.name}, about ${formatDistance(entry.distance)} from ${gate.name}`
+    if (location.name === destination.name) return `${intro} ${away} - head there to reach it.`
 
-    console.log("[v0] Nearest location:", nearestLocation?.name, "Distance:", minDistance.toFixed(0), "meters")
-    return nearestLocation
+    onRouteRequest({ from: location.name, to: destination.name, gate: gate.name })
+    return `${intro} ${away}. Enter via ${gate.name} - I'm showing the route on from there.${walkingTimeSentence(location.name, destination.name)}`
   }
 
-  const processQuery = (userQuery: string) => {
-    const lowerQuery = userQuery.toLowerCase().trim()
+  const routeFromCurrentPosition = (destination: Location, intro: string): string => {
+    if (userLocation && locationPermission === "granted") {
+      if (!isOnCampus(campus.data, userLocation)) {
+        return routeFromOffCampus(userLocation, destination, intro)
+      }
+      const from = { ...userLocation, name: "your current location" }
+      onRouteRequest({ from, to: destination.name })
+      return `${intro} I'm showing you the route from your current location.${walkingTimeSentence(from, destination.name)}`
+    }
+    return `${intro} (Enable location access to get directions from your current position!)`
+  }
 
-    // Extract keywords from query
-    const keywords = lowerQuery.split(/\s+/).filter((word) => word.length > 2)
+  const findLocation = (name: string) => campus.data.locations.find((location) => location.name === name)
 
-    // Score each location based on keyword matches
-    const scoredLocations = campusData.locations.map((location) => {
-      let score = 0
+  // Route once both sides are settled; an empty origin means the user's current position
+  const requestRoute = (from: string | null, to: string, intro: string): string => {
+    const destination = findLocation(to)
+    if (!destination) return intro
 
-      // Check tags
-      keywords.forEach((keyword) => {
-        location.tags.forEach((tag) => {
-          if (tag.includes(keyword) || keyword.includes(tag)) {
-            score += 3
-          }
-        })
-      })
+    onLocationFound(destination)
+    if (from === null) return routeFromCurrentPosition(destination, intro)
 
-      // Check name
-      keywords.forEach((keyword) => {
-        if (location.name.toLowerCase().includes(keyword)) {
-          score += 2
-        }
-      })
+    onRouteRequest({ from, to })
+    return `${intro}${walkingTimeSentence(from, to)}`
+  }
 
-      // Check description
-      keywords.forEach((keyword) => {
-        if (location.description.toLowerCase().includes(keyword)) {
-          score += 1
-        }
-      })
+  const handleResultPick = (messageIndex: number, name: string) => {
+    const reply = requestRoute(null, name, `Let's get you to ${name}.`)
 
-      return { location, score }
-    })
+    setMessages((prev) => [
+      ...prev.map((message, index) => (index === messageIndex ? { ...message, results: undefined } : message)),
+      { type: "user", text: name },
+      { type: "ai", text: reply },
+    ])
+  }
 
-    // Sort by score
-    scoredLocations.sort((a, b) => b.score - a.score)
+  const distanceFromUser = (location: Location): number | null => {
+    if (!userLocation || locationPermission !== "granted") return null
+    return calculateDistance(userLocation.lat, userLocation.lng, location.lat, location.lng)
+  }
 
-    const bestMatch = scoredLocations[0]
+  const handleClarification = (messageIndex: number, clarify: { from: string[]; to: string[] }, choice: string) => {
+    const side = clarify.from.length > 1 ? "from" : "to"
+    const settled = { ...clarify, [side]: [choice] }
 
-    if (bestMatch.score > 0) {
-      let response = ""
+    let reply: Message
+    if (settled.to.length > 1) {
+      reply = { type: "ai", text: `And where to: ${settled.to.join(" or ")}?`, clarify: settled }
+    } else if (settled.to.length === 0) {
+      // The navigator reads the origin back from "I'm at ..." when the destination comes in
+      reply = { type: "ai", text: ASK_DESTINATION_REPLY }
+    } else {
+      const from = settled.from[0] ?? null
+      const text = from ? `Here's the way from ${from} to ${settled.to[0]}.` : `Let's get you to ${settled.to[0]}.`
+      reply = { type: "ai", text: requestRoute(from, settled.to[0], text) }
+    }
 
-      if (userLocation && locationPermission === "granted") {
-        const nearestLocation = findNearestLocation(userLocation.lat, userLocation.lng)
+    setMessages((prev) => [
+      ...prev.map((message, index) => (index === messageIndex ? { ...message, clarify: undefined } : message)),
+      { type: "user", text: side === "from" ? `I'm at ${choice}` : choice },
+      reply,
+    ])
+  }
 
-        if (nearestLocation) {
-          response = `Perfect! I found ${bestMatch.location.name} for you. ${bestMatch.location.description} I'm showing you the route from ${nearestLocation.name} (nearest to your current location).`
+  const respondToIntent = (intent: NavigatorIntent): Message => {
+    switch (intent.kind) {
+      case "find-location": {
+        const location = findLocation(intent.location)
+        if (!location) return { type: "ai", text: intent.reply }
 
-          onRouteRequest({
-            from: nearestLocation.name,
-            to: bestMatch.location.name,
-          })
-        } else {
-          response = `You can try the ${bestMatch.location.name}! ${bestMatch.location.description}`
-        }
-      } else {
-        response = `I'd recommend ${bestMatch.location.name}. ${bestMatch.location.description} (Enable location access to get directions from your current position!)`
+        onLocationFound(location)
+        return { type: "ai", text: routeFromCurrentPosition(location, intent.reply) }
       }
+      case "route":
+        return { type: "ai", text: requestRoute(intent.from, intent.to, intent.reply) }
+      case "list-places": {
+        const locations = intent.locations.map(findLocation).filter((location): location is Location => !!location)
+        onLocationsFound(locations)
+        return { type: "ai", text: intent.reply, results: locations.map((location) => location.name) }
+      }
+      case "clarify": {
+        const ambiguous = intent.from.length > 1 || intent.to.length > 1
+        return { type: "ai", text: intent.reply, clarify: ambiguous ? { from: intent.from, to: intent.to } : undefined }
+      }
+      default:
+        return { type: "ai", text: intent.reply }
+    }
+  }
 
-      setMessages((prev) => [...prev, { type: "user", text: userQuery }, { type: "ai", text: response }])
-
-      // Highlight location on map
-      onLocationFound(bestMatch.location)
-    } else {
-      setMessages((prev) => [
-        ...prev,
-        { type: "user", text: userQuery },
-        {
-          type: "ai",
-          text: "Hmm, I'm not sure where that is, but you can explore the map! Try asking about food, study spots, romantic places, or sports facilities.",
-        },
-      ])
+  const processQuery = async (userQuery: string) => {
+    const history: Message[] = [...messages, { type: "user", text: userQuery }]
+    setMessages(history)
+    setIsThinking(true)
+
+    let response: Message
+    try {
+      const result = await fetch("/api/navigator", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          campus: campus.id,
+          messages: history.slice(-MAX_HISTORY).map((message) => ({
+            role: message.type === "user" ? "user" : "assistant",
+            content: message.text,
+          })),
+        }),
+      })
+      if (!result.ok) throw new Error(`Navigator responded with ${result.status}`)
+
+      const { intent } = (await result.json()) as { intent: NavigatorIntent }
+      response = respondToIntent(intent)
+    } catch (error) {
+      console.log("[v0] Navigator request failed:", error)
+      response = { type: "ai", text: "Sorry, I couldn't reach the navigator just now. Please try again in a moment." }
+    } finally {
+      setIsThinking(false)
     }
+
+    setMessages((prev) => [...prev, response])
   }
 
   const handleSubmit = (e: React.FormEvent) => {
@@ -199,9 +281,64 @@ export default function AINavigator({ onLocationFound, onRouteRequest }: AINavig
               }`}
             >
               <p className="text-sm">{message.text}</p>
+              {message.clarify && (
+                <div className="flex flex-wrap gap-2 mt-2">
+                  {(message.clarify.from.length > 1 ? message.clarify.from : message.clarify.to).map((option) => (
+                    <Button
+                      key={option}
+                      variant="outline"
+                      size="sm"
+                      onClick={() => handleClarification(index, message.clarify!, option)}
+                      className="text-xs"
+                    >
+                      {findLocation(option)?.icon} {option}
+                    </Button>
+                  ))}
+                </div>
+              )}
+              {message.results && (
+                <div className="grid gap-2 mt-2" role="list" aria-label="Matching places">
+                  {message.results.map((name, rank) => {
+                    const location = findLocation(name)
+                    if (!location) return null
+                    const distance = distanceFromUser(location)
+
+                    return (
+                      <button
+                        key={name}
+                        type="button"
+                        role="listitem"
+                        onClick={() => handleResultPick(index, name)}
+                        className="text-left p-2 rounded-md border bg-background text-foreground hover:bg-accent transition-colors"
+                        aria-label={`Route to ${name}`}
+                      >
+                        <div className="flex items-center gap-2">
+                          <span className="text-xs font-semibold text-muted-foreground">{rank + 1}.</span>
+                          <span className="text-sm font-medium">
+                            {location.icon} {location.name}
+                          </span>
+                          {distance !== null && (
+                            <span className="ml-auto text-xs text-muted-foreground">
+                              {formatDistance(distance)} away
+                            </span>
+                          )}
+                        </div>
+                        <p className="text-xs text-muted-foreground mt-1">{location.description}</p>
+                      </button>
+                    )
+                  })}
+                </div>
+              )}
             </div>
           </div>
         ))}
+        {isThinking && (
+          <div className="flex justify-start">
+            <div className="max-w-[80%] p-3 rounded-lg bg-muted text-muted-foreground">
+              <p className="text-sm animate-pulse">Thinking...</p>
+            </div>
+          </div>
+        )}
       </div>
 
       {/* Quick Questions */}
@@ -236,7 +373,7 @@ export default function AINavigator({ onLocationFound, onRouteRequest }: AINavig
           className="flex-1"
           aria-label="Ask AI Navigator"
         />
-        <Button type="submit" size="icon" disabled={!query.trim()} aria-label="Send query">
+        <Button type="submit" size="icon" disabled={!query.trim() || isThinking} aria-label="Send query">
           <Send className="w-4 h-4" />
         </Button>
       </form>
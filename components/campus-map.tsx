@@ -1,13 +1,62 @@
 "use client"
 
-import { useEffect, useRef, useState } from "react"
+import { useEffect, useMemo, useRef, useState } from "react"
 import { Card } from "@/components/ui/card"
 import { Button } from "@/components/ui/button"
 import { Badge } from "@/components/ui/badge"
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
-import { campusData, type Persona, type Location } from "@/lib/campus-data"
-import { findPath, generateDirections } from "@/lib/path-network"
-import { MapPin, Navigation, Info } from "lucide-react"
+import TripStops from "@/components/trip-stops"
+import DirectionSteps from "@/components/direction-steps"
+import LocationSearch from "@/components/location-search"
+import FloorSwitcher from "@/components/floor-switcher"
+import { useLeaflet } from "@/hooks/use-leaflet"
+import type { Persona, Location, SubLocation } from "@/lib/campus-data"
+import type { Campus } from "@/lib/campuses"
+import { resolveRoute, type RouteSource } from "@/lib/route-resolver"
+import { planTrip, type Trip } from "@/lib/trip-planner"
+import { subLocationLabel } from "@/lib/search"
+import { escapeHtml } from "@/lib/utils"
+import type { DirectionStep } from "@/lib/directions"
+import {
+  endpointName,
+  findRoom,
+  isRoomRef,
+  type MapPoint,
+  type PathNode,
+  type RoomRef,
+  type RouteEndpoint,
+} from "@/lib/path-network"
+import { createSimulatedFeed, geolocationFeed, type PositionFeed, type TrackedPosition } from "@/lib/position-feed"
+import { computeRouteProgress, currentStepIndex, isOffRoute } from "@/lib/route-progress"
+import {
+  formatDuration,
+  mobilityProfiles,
+  walkingSpeed,
+  type MobilityProfile,
+  type TravelProfile,
+} from "@/lib/walking-time"
+import { formatActiveHours, hazardZones, nightTime, type HazardAvoidance } from "@/lib/hazards"
+import { bestGate, describeArrival, formatDistance, isOnCampus, type Arrival } from "@/lib/geofence"
+import {
+  CLOSING_SOON_MINUTES,
+  formatOpeningStatus,
+  isOpen,
+  openingStatus,
+  wallClockTime,
+  type OpeningStatus,
+} from "@/lib/opening-hours"
+import {
+  MapPin,
+  Navigation,
+  Info,
+  Moon,
+  TriangleAlert,
+  Route as RouteIcon,
+  LocateFixed,
+  Footprints,
+  Clock,
+  DoorOpen,
+} from "lucide-react"
 
 const markerColors: Record<string, string> = {
   warning: "#ef4444",
@@ -28,65 +77,263 @@ const personaColors: Record<Persona, string> = {
   "cat-fearful": "#10b981",
 }
 
+// Ways of coming onto campus; they decide which gates routes in from off campus can use
+const arrivals: { label: string; arrival: Arrival }[] = [
+  { label: "🚶 Student on foot", arrival: { mode: "pedestrian", user: "students" } },
+  { label: "🚗 Student driving in", arrival: { mode: "vehicle", user: "students" } },
+  { label: "🚶 Visitor on foot", arrival: { mode: "pedestrian", user: "visitors" } },
+  { label: "🚗 Visitor driving in", arrival: { mode: "vehicle", user: "visitors" } },
+]
+
+const arrivalValue = ({ mode, user }: Arrival) => `${user}-${mode}`
+
 interface CampusMapProps {
+  campus: Campus
   highlightLocation?: Location | null
-  routeInfo?: { from: string; to: string } | null
+  highlightLocations?: Location[]
+  // `gate` is set for routes in from off campus, which start at the gate's location
+  routeInfo?: { from: RouteEndpoint; to: string; gate?: string } | null
+  // Source of live positions; defaults to the browser's GPS
+  positionFeed?: PositionFeed
+  // Called whenever the persona, pace or way of arriving used for routing changes
+  onTravelProfileChange?: (profile: TravelProfile) => void
+}
+
+type TrackingMode = "off" | "live" | "simulated"
+
+// Select value standing for a map point or room endpoint rather than a named location
+const POINT_ENDPOINT = "__point__"
+
+// A dropped pin or a room inside a building, used instead of a named location
+type PlaceEndpoint = MapPoint | RoomRef
+
+// The floor plan being shown over the map
+interface IndoorView {
+  building: string
+  level: number
+}
+
+// Minimum time between automatic reroutes, so a jittery fix can't recompute on every update
+const REROUTE_COOLDOWN_MS = 10000
+
+// "You are here" dot with an arrow pointing the way the user is heading
+function createUserIcon(L: any, heading: number | null) {
+  return L.divIcon({
+    className: "user-marker",
+    html: `
+      <div style="position: relative; width: 22px; height: 22px;">
+        ${
+          heading === null
+            ? ""
+            : `<div style="
+                position: absolute;
+                left: 5px;
+                top: -10px;
+                width: 0;
+                height: 0;
+                border-left: 6px solid transparent;
+                border-right: 6px solid transparent;
+                border-bottom: 12px solid #2563eb;
+                transform-origin: 6px 21px;
+                transform: rotate(${heading}deg);
+              "></div>`
+        }
+        <div style="
+          width: 22px;
+          height: 22px;
+          border-radius: 50%;
+          background-color: #2563eb;
+          border: 3px solid white;
+          box-shadow: 0 0 0 2px rgba(37,99,235,0.4), 0 2px 6px rgba(0,0,0,0.3);
+        "></div>
+      </div>
+    `,
+    iconSize: [22, 22],
+    iconAnchor: [11, 11],
+  })
 }
 
-export default function CampusMap({ highlightLocation, routeInfo }: CampusMapProps) {
+// Teardrop marker for a location; highlighted markers are larger with a glowing outline
+function createMarkerIcon(L: any, location: Location, highlighted = false) {
+  const size = highlighted ? 40 : 32
+  const markerColor = markerColors[location.type] || markerColors.default
+
+  return L.divIcon({
+    className: "custom-marker",
+    html: `
+      <div style="
+        background-color: ${markerColor};
+        width: ${size}px;
+        height: ${size}px;
+        border-radius: 50% 50% 50% 0;
+        transform: rotate(-45deg);
+        border: ${highlighted ? 4 : 3}px solid white;
+        box-shadow: ${highlighted ? "0 0 16px rgba(255,255,255,0.9), " : ""}0 2px 8px rgba(0,0,0,0.3);
+        display: flex;
+        align-items: center;
+        justify-content: center;
+      ">
+        <span style="
+          transform: rotate(45deg);
+          color: white;
+          font-size: ${highlighted ? 20 : 16}px;
+          font-weight: bold;
+        ">${escapeHtml(location.icon)}</span>
+      </div>
+    `,
+    iconSize: [size, size],
+    iconAnchor: [size / 2, size],
+    popupAnchor: [0, -size],
+  })
+}
+
+type PinKind = "start" | "end"
+
+const pinStyles: Record<PinKind, { color: string; label: string; name: string }> = {
+  start: { color: "#10b981", label: "A", name: "Start pin" },
+  end: { color: "#ef4444", label: "B", name: "End pin" },
+}
+
+// Draggable pin for a custom start or end point
+function createPinIcon(L: any, kind: PinKind) {
+  const { color, label } = pinStyles[kind]
+  return L.divIcon({
+    className: "route-pin",
+    html: `
+      <div style="
+        background-color: ${color};
+        width: 28px;
+        height: 28px;
+        border-radius: 50% 50% 50% 0;
+        transform: rotate(-45deg);
+        border: 3px solid white;
+        box-shadow: 0 2px 8px rgba(0,0,0,0.4);
+        display: flex;
+        align-items: center;
+        justify-content: center;
+        cursor: grab;
+      ">
+        <span style="transform: rotate(45deg); color: white; font-size: 13px; font-weight: bold;">${label}</span>
+      </div>
+    `,
+    iconSize: [28, 28],
+    iconAnchor: [14, 28],
+  })
+}
+
+// "Route from here" / "Route to here" buttons for a popup, wired up with bindRouteButtons once it opens
+function routeButtonsHtml(fromLabel: string, toLabel: string) {
+  const style =
+    "flex: 1; padding: 4px 8px; border-radius: 6px; border: 1px solid #d1d5db; background: white; cursor: pointer; font-size: 12px;"
+  return `
+    <div style="display: flex; gap: 6px; margin-top: 8px;">
+      <button type="button" data-route="from" style="${style}">${fromLabel}</button>
+      <button type="button" data-route="to" style="${style}">${toLabel}</button>
+    </div>
+  `
+}
+
+// Green when open, amber when closing soon, red when closed
+function openingColor(status: OpeningStatus, time: Date) {
+  if (!status.open) return "#ef4444"
+  const closingSoon =
+    status.changesAt && status.changesAt.getTime() - time.getTime() <= CLOSING_SOON_MINUTES * 60 * 1000
+  return closingSoon ? "#f59e0b" : "#10b981"
+}
+
+// Rooms, departments and offices inside a location, for its popup
+function subLocationsHtml(location: Location) {
+  if (!location.subLocations?.length) return ""
+  const items = location.subLocations
+    .map((subLocation) => `<li>${escapeHtml(subLocationLabel(location, subLocation))}</li>`)
+    .join("")
+  return `
+    <p style="font-size: 12px; color: #888; margin-top: 6px;"><strong>Inside:</strong></p>
+    <ul style="font-size: 12px; color: #888; margin: 2px 0 0 16px; list-style: disc;">${items}</ul>
+  `
+}
+
+function floorsButtonHtml() {
+  return `
+    <button type="button" data-floors style="width: 100%; margin-top: 6px; padding: 4px 8px; border-radius: 6px; border: 1px solid #d1d5db; background: white; cursor: pointer; font-size: 12px;">
+      🏢 Show floors and rooms
+    </button>
+  `
+}
+
+function bindRouteButtons(element: HTMLElement | undefined, onFrom: () => void, onTo: () => void) {
+  element?.querySelector<HTMLButtonElement>('[data-route="from"]')?.addEventListener("click", onFrom)
+  element?.querySelector<HTMLButtonElement>('[data-route="to"]')?.addEventListener("click", onTo)
+}
+
+export default function CampusMap({
+  campus,
+  highlightLocation,
+  highlightLocations,
+  routeInfo,
+  positionFeed = geolocationFeed,
+  onTravelProfileChange,
+}: CampusMapProps) {
   const mapRef = useRef<any>(null)
   const mapContainerRef = useRef<HTMLDivElement>(null)
   const markersRef = useRef<any[]>([])
   const routeLayerRef = useRef<any>(null)
+  const stepLayerRef = useRef<any>(null)
   const directionMarkersRef = useRef<any[]>([])
   const highlightedMarkerRef = useRef<any>(null)
+  const highlightedGroupRef = useRef<{ marker: any; location: Location }[]>([])
+  const userMarkerRef = useRef<any>(null)
+  const accuracyCircleRef = useRef<any>(null)
+  const lastRerouteRef = useRef(0)
+  const pinMarkersRef = useRef<Record<PinKind, any>>({ start: null, end: null })
+  // While a pin is dragged the route follows it without reframing the map
+  const draggingPinRef = useRef(false)
+  // Campus clock the opening-hours badges and filter go by
+  const openingTimeRef = useRef(wallClockTime(campus.timeZone))
+  const indoorLayerRef = useRef<any>(null)
 
   const [fromLocation, setFromLocation] = useState<string>("")
+  const [fromPoint, setFromPoint] = useState<PlaceEndpoint | null>(null)
   const [selectedLocation, setSelectedLocation] = useState<string>("")
+  const [toPoint, setToPoint] = useState<PlaceEndpoint | null>(null)
+  const [indoorView, setIndoorView] = useState<IndoorView | null>(null)
   const [selectedPersona, setSelectedPersona] = useState<Persona>("new-student")
+  const [mobility, setMobility] = useState<MobilityProfile>("standard")
+  const [arrival, setArrival] = useState<Arrival>({ mode: "pedestrian", user: "students" })
+  // Gate the route comes onto campus by while the origin is still that gate's location
+  const [entryGate, setEntryGate] = useState<{ gate: string; location: string } | null>(null)
   const [showLegend, setShowLegend] = useState(true)
-  const [currentDirections, setCurrentDirections] = useState<string[]>([])
-  const [leafletLoaded, setLeafletLoaded] = useState(false)
-  const [L, setL] = useState<any>(null)
-
-  // Load Leaflet dynamically
-  useEffect(() => {
-    const link = document.createElement("link")
-    link.rel = "stylesheet"
-    link.href = "https://unpkg.com/leaflet@1.9.4/dist/leaflet.css"
-    link.integrity = "sha256-p4NxAoJBhIIN+hmNHrzRCf9tD/miZyoHS5obTRR9BMY="
-    link.crossOrigin = ""
-    document.head.appendChild(link)
-
-    const script = document.createElement("script")
-    script.src = "https://unpkg.com/leaflet@1.9.4/dist/leaflet.js"
-    script.integrity = "sha256-20nQCchB9co0qIjJZRGuk2/Z9VM+kNiyxNV1lvTlZBo="
-    script.crossOrigin = ""
-    script.async = true
-    script.onload = () => {
-      setL((window as any).L)
-      setLeafletLoaded(true)
-    }
-    document.head.appendChild(script)
-
-    return () => {
-      document.head.removeChild(link)
-      document.head.removeChild(script)
-    }
-  }, [])
+  const [currentSteps, setCurrentSteps] = useState<DirectionStep[]>([])
+  const [routeSource, setRouteSource] = useState<RouteSource | null>(null)
+  const [hazardAvoidance, setHazardAvoidance] = useState<HazardAvoidance>("penalise")
+  const [nightMode, setNightMode] = useState(false)
+  const [openOnly, setOpenOnly] = useState(false)
+  // Wall-clock time on campus, whatever zone the device is in
+  const [now, setNow] = useState(() => wallClockTime(campus.timeZone))
+  const [tripMode, setTripMode] = useState(false)
+  const [tripStops, setTripStops] = useState<string[]>([])
+  const [optimiseTrip, setOptimiseTrip] = useState(false)
+  const [currentTrip, setCurrentTrip] = useState<Trip | null>(null)
+  const [activeRoute, setActiveRoute] = useState<{ path: PathNode[]; steps: DirectionStep[] } | null>(null)
+  const [trackingMode, setTrackingMode] = useState<TrackingMode>("off")
+  const [userPosition, setUserPosition] = useState<TrackedPosition | null>(null)
+  const [trackingError, setTrackingError] = useState<string | null>(null)
+  const [rerouteFrom, setRerouteFrom] = useState<MapPoint | null>(null)
+  const L = useLeaflet()
 
   // Initialize map
   useEffect(() => {
-    if (!mapContainerRef.current || mapRef.current || !leafletLoaded || !L) return
+    if (!mapContainerRef.current || mapRef.current || !L) return
 
     const timer = setTimeout(() => {
       if (!mapContainerRef.current) return
 
       const map = L.map(mapContainerRef.current, {
-        center: [18.621130576268346, 73.91139588382592],
-        zoom: 17,
-        minZoom: 15,
-        maxZoom: 19,
+        center: campus.center,
+        zoom: campus.zoom,
+        minZoom: campus.minZoom,
+        maxZoom: campus.maxZoom,
+        maxBounds: campus.bounds,
         zoomControl: true,
       })
 
@@ -101,45 +348,27 @@ export default function CampusMap({ highlightLocation, routeInfo }: CampusMapPro
 
       tileLayer.addTo(map)
 
+      if (campus.data.boundary) {
+        L.polygon(campus.data.boundary.polygon, {
+          color: "#f8fafc",
+          weight: 2,
+          dashArray: "8 6",
+          fill: false,
+          interactive: false,
+        }).addTo(map)
+      }
+
       setTimeout(() => {
         map.invalidateSize()
       }, 100)
 
       mapRef.current = map
 
-      campusData.locations.forEach((location) => {
+      campus.data.locations.forEach((location) => {
         const markerColor = markerColors[location.type] || markerColors.default
 
-        const customIcon = L.divIcon({
-          className: "custom-marker",
-          html: `
-            <div style="
-              background-color: ${markerColor};
-              width: 32px;
-              height: 32px;
-              border-radius: 50% 50% 50% 0;
-              transform: rotate(-45deg);
-              border: 3px solid white;
-              box-shadow: 0 2px 8px rgba(0,0,0,0.3);
-              display: flex;
-              align-items: center;
-              justify-content: center;
-            ">
-              <span style="
-                transform: rotate(45deg);
-                color: white;
-                font-size: 16px;
-                font-weight: bold;
-              ">${location.icon}</span>
-            </div>
-          `,
-          iconSize: [32, 32],
-          iconAnchor: [16, 32],
-          popupAnchor: [0, -32],
-        })
-
         const marker = L.marker([location.lat, location.lng], {
-          icon: customIcon,
+          icon: createMarkerIcon(L, location),
           title: location.name,
           alt: `${location.name} - ${location.description}`,
         })
@@ -148,10 +377,15 @@ export default function CampusMap({ highlightLocation, routeInfo }: CampusMapPro
             `
             <div style="min-width: 200px;">
               <h3 style="font-weight: bold; font-size: 16px; margin-bottom: 8px; color: ${markerColor};">
-                ${location.icon} ${location.name}
+                ${escapeHtml(location.icon)} ${escapeHtml(location.name)}
               </h3>
-              <p style="margin-bottom: 8px; color: #666;">${location.description}</p>
-              ${location.landmarks ? `<p style="font-size: 12px; color: #888;"><strong>Landmarks:</strong> ${location.landmarks}</p>` : ""}
+              <p style="margin-bottom: 8px; color: #666;">${escapeHtml(location.description)}</p>
+              ${location.openingHours ? `<p data-opening style="font-size: 12px; font-weight: 600; margin-bottom: 8px;"></p>` : ""}
+              ${location.landmarks ? `<p style="font-size: 12px; color: #888;"><strong>Landmarks:</strong> ${escapeHtml(location.landmarks)}</p>` : ""}
+              ${location.accessibleEntrance ? `<p style="font-size: 12px; color: #888;"><strong>♿ Accessible entrance:</strong> ${escapeHtml(location.accessibleEntrance)}</p>` : ""}
+              ${subLocationsHtml(location)}
+              ${routeButtonsHtml("Route from here", "Route to here")}
+              ${location.indoor ? floorsButtonHtml() : ""}
             </div>
           `,
             {
@@ -164,8 +398,77 @@ export default function CampusMap({ highlightLocation, routeInfo }: CampusMapPro
           this.openPopup()
         })
 
+        marker.on("popupopen", (event: any) => {
+          // Filled in on every open, so the badge is never stale
+          const badge = event.popup.getElement()?.querySelector("[data-opening]") as HTMLElement | null
+          const status = openingStatus(location, openingTimeRef.current)
+          if (badge && status) {
+            badge.textContent = formatOpeningStatus(status, openingTimeRef.current)
+            badge.style.color = openingColor(status, openingTimeRef.current)
+          }
+
+          event.popup
+            .getElement()
+            ?.querySelector("[data-floors]")
+            ?.addEventListener("click", () => {
+              setIndoorView({ building: location.name, level: 0 })
+              map.closePopup()
+              map.setView([location.lat, location.lng], 19)
+            })
+          bindRouteButtons(
+            event.popup.getElement(),
+            () => {
+              setTripMode(false)
+              setFromLocation(location.name)
+              map.closePopup()
+            },
+            () => {
+              setTripMode(false)
+              setSelectedLocation(location.name)
+              map.closePopup()
+            },
+          )
+        })
+
         markersRef.current.push(marker)
       })
+
+      hazardZones(campus.data).forEach(({ location, hazard }) => {
+        L.circle([location.lat, location.lng], {
+          radius: hazard.radius,
+          color: markerColors.warning,
+          weight: 2,
+          dashArray: "6 6",
+          fillOpacity: 0.15,
+        })
+          .addTo(map)
+          .bindTooltip(escapeHtml(`${location.icon} ${hazard.warning} (${formatActiveHours(hazard)})`))
+      })
+
+      // Right-click (long-press on touch screens) drops a custom start or end pin
+      map.on("contextmenu", (event: any) => {
+        const { lat, lng } = event.latlng
+        const popup = L.popup()
+          .setLatLng(event.latlng)
+          .setContent(`<div style="min-width: 180px;">${routeButtonsHtml("Start here", "End here")}</div>`)
+          .openOn(map)
+
+        bindRouteButtons(
+          popup.getElement(),
+          () => {
+            setTripMode(false)
+            setFromPoint({ lat, lng, name: pinStyles.start.name })
+            setFromLocation("")
+            map.closePopup()
+          },
+          () => {
+            setTripMode(false)
+            setToPoint({ lat, lng, name: pinStyles.end.name })
+            setSelectedLocation("")
+            map.closePopup()
+          },
+        )
+      })
     }, 250)
 
     return () => {
@@ -175,36 +478,130 @@ export default function CampusMap({ highlightLocation, routeInfo }: CampusMapPro
         mapRef.current = null
       }
     }
-  }, [leafletLoaded, L])
+  }, [L])
+
+  // Keep "open now" current while the page stays open
+  useEffect(() => {
+    const timer = setInterval(() => setNow(wallClockTime(campus.timeZone)), 60 * 1000)
+    return () => clearInterval(timer)
+  }, [])
+
+  // With the open-places filter on, closed locations drop off the map
+  useEffect(() => {
+    openingTimeRef.current = now
+    if (!mapRef.current) return
+
+    campus.data.locations.forEach((location, index) => {
+      const marker = markersRef.current[index]
+      if (!marker) return
+      const shown = !openOnly || isOpen(location, now)
+      if (shown && !mapRef.current.hasLayer(marker)) marker.addTo(mapRef.current)
+      if (!shown && mapRef.current.hasLayer(marker)) marker.remove()
+    })
+  }, [openOnly, now, L])
 
+  // Picking a named location replaces any custom pin on that side
   useEffect(() => {
-    if (!mapRef.current || !fromLocation || !selectedLocation || !L) {
+    if (fromLocation) setFromPoint(null)
+  }, [fromLocation])
+
+  useEffect(() => {
+    if (selectedLocation) setToPoint(null)
+  }, [selectedLocation])
+
+  // A new origin, destination or tracking session starts again from the chosen route
+  useEffect(() => {
+    setRerouteFrom(null)
+  }, [fromLocation, fromPoint, selectedLocation, toPoint, tripMode, trackingMode])
+
+  useEffect(() => {
+    const clearRoute = () => {
       if (routeLayerRef.current) {
         routeLayerRef.current.remove()
         routeLayerRef.current = null
       }
+      stepLayerRef.current?.remove()
+      stepLayerRef.current = null
       directionMarkersRef.current.forEach((marker) => marker.remove())
       directionMarkersRef.current = []
-      setCurrentDirections([])
-      return
     }
 
-    const path = findPath(fromLocation, selectedLocation)
-
-    if (!path || path.length === 0) {
-      setCurrentDirections(["No route found between these locations"])
-      return
+    // Night mode only moves the clock hazards go by; opening hours stay on the real campus time
+    const campusTime = wallClockTime(campus.timeZone)
+    const routeOptions = {
+      avoidHazards: hazardAvoidance,
+      time: nightMode ? nightTime(campusTime) : campusTime,
+      mobility,
     }
 
-    const directions = generateDirections(path, selectedPersona)
-    setCurrentDirections(directions)
+    let path: PathNode[]
+    let markerLabels: { node: PathNode; label: string }[]
 
-    // Remove existing route
-    if (routeLayerRef.current) {
-      routeLayerRef.current.remove()
+    if (tripMode) {
+      setCurrentSteps([])
+      setRouteSource(null)
+
+      if (!mapRef.current || tripStops.length < 2 || !L) {
+        clearRoute()
+        setCurrentTrip(null)
+        setActiveRoute(null)
+        return
+      }
+
+      const trip = planTrip(campus.data, tripStops, selectedPersona, { ...routeOptions, optimiseOrder: optimiseTrip })
+      if (!trip || trip.legs.length === 0) {
+        clearRoute()
+        setCurrentTrip(null)
+        setActiveRoute(null)
+        return
+      }
+      setCurrentTrip(trip)
+      setActiveRoute({ path: trip.path, steps: [] })
+
+      // Number each stop rather than every junction along the way
+      path = trip.path
+      markerLabels = [
+        { node: trip.legs[0].route.path[0], label: "1" },
+        ...trip.legs.map((leg, index) => ({ node: leg.route.path[leg.route.path.length - 1], label: `${index + 2}` })),
+      ]
+    } else {
+      setCurrentTrip(null)
+
+      const origin = rerouteFrom ?? fromPoint ?? fromLocation
+      const destination = toPoint ?? selectedLocation
+      if (!mapRef.current || !origin || !destination || !L) {
+        clearRoute()
+        setCurrentSteps([])
+        setRouteSource(null)
+        setActiveRoute(null)
+        return
+      }
+
+      const route = resolveRoute(campus.data, origin, destination, selectedPersona, {
+        ...routeOptions,
+        entryGate: entryGate?.location === origin ? entryGate.gate : undefined,
+      })
+
+      if (!route) {
+        clearRoute()
+        setCurrentSteps([{ type: "note", text: "No route found between these locations", segment: -1, geometry: [] }])
+        setRouteSource(null)
+        setActiveRoute(null)
+        return
+      }
+
+      setCurrentSteps(route.steps)
+      setRouteSource(route.source)
+      setActiveRoute({ path: route.path, steps: route.steps })
+
+      path = route.path
+      markerLabels = path
+        .map((node, index) => ({ node, label: `${index + 1}` }))
+        .filter(({ node }, index) => index === 0 || index === path.length - 1 || node.type === "intersection")
     }
-    directionMarkersRef.current.forEach((marker) => marker.remove())
-    directionMarkersRef.current = []
+
+    // Remove existing route
+    clearRoute()
 
     const routeCoordinates: [number, number][] = path.map((node) => [node.lat, node.lng])
 
@@ -217,45 +614,60 @@ export default function CampusMap({ highlightLocation, routeInfo }: CampusMapPro
 
     routeLayerRef.current = polyline
 
-    // Fit map to route bounds
-    mapRef.current.fitBounds(polyline.getBounds(), {
-      padding: [50, 50],
-    })
+    // Fit map to route bounds, unless rerouting a walker or dragging a pin - both are following the map
+    if (tripMode || (!rerouteFrom && !draggingPinRef.current)) {
+      mapRef.current.fitBounds(polyline.getBounds(), {
+        padding: [50, 50],
+      })
+    }
 
-    path.forEach((node, index) => {
-      if (index === 0 || index === path.length - 1 || node.type === "intersection") {
-        const stepMarker = L.marker([node.lat, node.lng], {
-          icon: L.divIcon({
-            className: "direction-marker",
-            html: `
-              <div style="
-                background-color: white;
-                padding: 4px 8px;
-                border-radius: 50%;
-                border: 2px solid ${personaColors[selectedPersona]};
-                font-size: 12px;
-                font-weight: 600;
-                box-shadow: 0 2px 4px rgba(0,0,0,0.2);
-                min-width: 24px;
-                text-align: center;
-              ">
-                ${index + 1}
-              </div>
-            `,
-            iconSize: [0, 0],
-            iconAnchor: [12, 12],
-          }),
-        }).addTo(mapRef.current)
-        directionMarkersRef.current.push(stepMarker)
-      }
+    markerLabels.forEach(({ node, label }) => {
+      const stepMarker = L.marker([node.lat, node.lng], {
+        icon: L.divIcon({
+          className: "direction-marker",
+          html: `
+            <div style="
+              background-color: white;
+              padding: 4px 8px;
+              border-radius: 50%;
+              border: 2px solid ${personaColors[selectedPersona]};
+              font-size: 12px;
+              font-weight: 600;
+              box-shadow: 0 2px 4px rgba(0,0,0,0.2);
+              min-width: 24px;
+              text-align: center;
+            ">
+              ${label}
+            </div>
+          `,
+          iconSize: [0, 0],
+          iconAnchor: [12, 12],
+        }),
+      }).addTo(mapRef.current)
+      directionMarkersRef.current.push(stepMarker)
     })
-  }, [fromLocation, selectedLocation, selectedPersona, L])
+  }, [
+    fromLocation,
+    fromPoint,
+    selectedLocation,
+    toPoint,
+    selectedPersona,
+    hazardAvoidance,
+    mobility,
+    nightMode,
+    tripMode,
+    tripStops,
+    optimiseTrip,
+    rerouteFrom,
+    entryGate,
+    L,
+  ])
 
   useEffect(() => {
     if (!mapRef.current || !highlightLocation || !L) return
 
     // Find the marker for this location
-    const locationIndex = campusData.locations.findIndex((loc) => loc.name === highlightLocation.name)
+    const locationIndex = campus.data.locations.findIndex((loc) => loc.name === highlightLocation.name)
     if (locationIndex === -1) return
 
     const marker = markersRef.current[locationIndex]
@@ -273,35 +685,7 @@ export default function CampusMap({ highlightLocation, routeInfo }: CampusMapPro
 
     // Add bounce animation
     if (highlightedMarkerRef.current) {
-      highlightedMarkerRef.current.setIcon(
-        L.divIcon({
-          className: "custom-marker",
-          html: `
-            <div style="
-              background-color: ${markerColors[highlightLocation.type] || markerColors.default};
-              width: 32px;
-              height: 32px;
-              border-radius: 50% 50% 50% 0;
-              transform: rotate(-45deg);
-              border: 3px solid white;
-              box-shadow: 0 2px 8px rgba(0,0,0,0.3);
-              display: flex;
-              align-items: center;
-              justify-content: center;
-            ">
-              <span style="
-                transform: rotate(45deg);
-                color: white;
-                font-size: 16px;
-                font-weight: bold;
-              ">${highlightLocation.icon}</span>
-            </div>
-          `,
-          iconSize: [32, 32],
-          iconAnchor: [16, 32],
-          popupAnchor: [0, -32],
-        }),
-      )
+      highlightedMarkerRef.current.setIcon(createMarkerIcon(L, highlightLocation))
     }
 
     // Create pulsing highlight effect
@@ -326,7 +710,7 @@ export default function CampusMap({ highlightLocation, routeInfo }: CampusMapPro
             color: white;
             font-size: 24px;
             font-weight: bold;
-          ">${highlightLocation.icon}</span>
+          ">${escapeHtml(highlightLocation.icon)}</span>
         </div>
         <style>
           @keyframes pulse {
@@ -345,34 +729,7 @@ export default function CampusMap({ highlightLocation, routeInfo }: CampusMapPro
 
     // Reset icon after animation
     setTimeout(() => {
-      const normalIcon = L.divIcon({
-        className: "custom-marker",
-        html: `
-          <div style="
-            background-color: ${markerColors[highlightLocation.type] || markerColors.default};
-            width: 32px;
-            height: 32px;
-            border-radius: 50% 50% 50% 0;
-            transform: rotate(-45deg);
-            border: 3px solid white;
-            box-shadow: 0 2px 8px rgba(0,0,0,0.3);
-            display: flex;
-            align-items: center;
-            justify-content: center;
-          ">
-            <span style="
-              transform: rotate(45deg);
-              color: white;
-              font-size: 16px;
-              font-weight: bold;
-            ">${highlightLocation.icon}</span>
-          </div>
-        `,
-        iconSize: [32, 32],
-        iconAnchor: [16, 32],
-        popupAnchor: [0, -32],
-      })
-      marker.setIcon(normalIcon)
+      marker.setIcon(createMarkerIcon(L, highlightLocation))
     }, 4500)
 
     // Set as destination for routing
@@ -381,13 +738,323 @@ export default function CampusMap({ highlightLocation, routeInfo }: CampusMapPro
 
   useEffect(() => {
     if (routeInfo) {
-      console.log("[v0] Route requested:", routeInfo.from, "→", routeInfo.to)
-      setFromLocation(routeInfo.from)
+      console.log("[v0] Route requested:", endpointName(campus.data, routeInfo.from), "→", routeInfo.to)
+      if (typeof routeInfo.from === "string") {
+        setFromLocation(routeInfo.from)
+        setFromPoint(null)
+      } else {
+        setFromPoint(routeInfo.from)
+        setFromLocation("")
+      }
       setSelectedLocation(routeInfo.to)
+      setEntryGate(
+        routeInfo.gate && typeof routeInfo.from === "string"
+          ? { gate: routeInfo.gate, location: routeInfo.from }
+          : null,
+      )
     }
   }, [routeInfo])
 
-  if (!leafletLoaded) {
+  useEffect(() => {
+    onTravelProfileChange?.({ persona: selectedPersona, mobility, arrival })
+  }, [selectedPersona, mobility, arrival, onTravelProfileChange])
+
+  // Draggable pins for custom start and end points; the route follows a pin while it is dragged
+  useEffect(() => {
+    if (!mapRef.current || !L) return
+
+    const pinPoint = (place: PlaceEndpoint | null) => (tripMode || !place || isRoomRef(place) ? null : place)
+    const points: Record<PinKind, MapPoint | null> = {
+      start: pinPoint(fromPoint),
+      end: pinPoint(toPoint),
+    }
+
+    for (const kind of ["start", "end"] as PinKind[]) {
+      const point = points[kind]
+      const marker = pinMarkersRef.current[kind]
+
+      if (!point) {
+        marker?.remove()
+        pinMarkersRef.current[kind] = null
+        continue
+      }
+      if (marker) {
+        marker.setLatLng([point.lat, point.lng])
+        continue
+      }
+
+      const setPoint = kind === "start" ? setFromPoint : setToPoint
+      const pin = L.marker([point.lat, point.lng], {
+        icon: createPinIcon(L, kind),
+        draggable: true,
+        title: `${pinStyles[kind].name} - drag to adjust the route`,
+        zIndexOffset: 900,
+      }).addTo(mapRef.current)
+
+      pin.on("dragstart", () => {
+        draggingPinRef.current = true
+      })
+      pin.on("drag", () => {
+        const { lat, lng } = pin.getLatLng()
+        setPoint({ lat, lng, name: pinStyles[kind].name })
+      })
+      pin.on("dragend", () => {
+        draggingPinRef.current = false
+      })
+      pinMarkersRef.current[kind] = pin
+    }
+  }, [fromPoint, toPoint, tripMode, L])
+
+  // Open the floor plan on the floor of a room being routed to, or else from
+  useEffect(() => {
+    const room = [toPoint, fromPoint].find((place): place is RoomRef => !!place && isRoomRef(place))
+    const found = room && findRoom(campus.data, room)
+    if (tripMode || !found) return
+    setIndoorView((view) =>
+      view?.building === found.location.name && view.level === found.floor.level
+        ? view
+        : { building: found.location.name, level: found.floor.level },
+    )
+  }, [fromPoint, toPoint, tripMode])
+
+  // Rooms, stairs and lifts on the floor being viewed, each room a possible route endpoint
+  useEffect(() => {
+    indoorLayerRef.current?.remove()
+    indoorLayerRef.current = null
+
+    const building = indoorView && campus.data.locations.find((location) => location.name === indoorView.building)
+    const floor = building?.indoor?.floors.find((candidate) => candidate.level === indoorView!.level)
+    if (!mapRef.current || !L || !building?.indoor || !floor) return
+
+    const layer = L.layerGroup().addTo(mapRef.current)
+    indoorLayerRef.current = layer
+
+    const isEndpoint = (room: string) =>
+      [fromPoint, toPoint].some(
+        (place) => place && isRoomRef(place) && place.location === building.name && place.room === room,
+      )
+
+    floor.rooms.forEach((room) => {
+      const ref: RoomRef = { location: building.name, room: room.id }
+      const endpoint = isEndpoint(room.id)
+      L.circleMarker([room.lat, room.lng], {
+        radius: endpoint ? 9 : 7,
+        color: "white",
+        weight: 2,
+        fillColor: endpoint ? "#ef4444" : markerColors[building.type] || markerColors.default,
+        fillOpacity: 0.9,
+      })
+        .addTo(layer)
+        .bindTooltip(escapeHtml(room.name), { permanent: true, direction: "top", offset: [0, -8] })
+        .bindPopup(
+          `<div style="min-width: 180px;">
+            <strong>${escapeHtml(room.name)}</strong>
+            <p style="font-size: 12px; color: #888;">${escapeHtml(`${building.name}, ${floor.name}`)}</p>
+            ${routeButtonsHtml("Route from here", "Route to here")}
+          </div>`,
+        )
+        .on("popupopen", (event: any) => {
+          bindRouteButtons(
+            event.popup.getElement(),
+            () => {
+              setTripMode(false)
+              setFromPoint(ref)
+              setFromLocation("")
+              mapRef.current.closePopup()
+            },
+            () => {
+              setTripMode(false)
+              setToPoint(ref)
+              setSelectedLocation("")
+              mapRef.current.closePopup()
+            },
+          )
+        })
+    })
+
+    building.indoor.connectors
+      .filter((connector) => connector.levels.includes(floor.level))
+      .forEach((connector) => {
+        L.marker([connector.lat, connector.lng], {
+          icon: L.divIcon({
+            className: "indoor-connector",
+            html: `<div style="font-size: 16px; line-height: 1;">${connector.kind === "lift" ? "🛗" : "🪜"}</div>`,
+            iconSize: [16, 16],
+            iconAnchor: [8, 8],
+          }),
+          title: connector.kind === "lift" ? "Lift" : "Stairs",
+        }).addTo(layer)
+      })
+  }, [indoorView, fromPoint, toPoint, L])
+
+  // Highlight every location of a multi-result answer at once and frame them all
+  useEffect(() => {
+    if (!mapRef.current || !L) return
+
+    highlightedGroupRef.current.forEach(({ marker, location }) => marker.setIcon(createMarkerIcon(L, location)))
+    highlightedGroupRef.current = []
+
+    if (!highlightLocations || highlightLocations.length === 0) return
+
+    highlightLocations.forEach((location) => {
+      const marker = markersRef.current[campus.data.locations.findIndex((loc) => loc.name === location.name)]
+      if (!marker) return
+
+      marker.setIcon(createMarkerIcon(L, location, true))
+      highlightedGroupRef.current.push({ marker, location })
+    })
+
+    mapRef.current.fitBounds(L.latLngBounds(highlightLocations.map((location) => [location.lat, location.lng])), {
+      padding: [60, 60],
+      maxZoom: 18,
+    })
+  }, [highlightLocations, L])
+
+  // A simulated walk has nothing to follow once the route is cleared
+  useEffect(() => {
+    if (!activeRoute && trackingMode === "simulated") setTrackingMode("off")
+  }, [activeRoute, trackingMode])
+
+  // Follow the user: live GPS, or a simulated walk along the active route
+  const simulatedPath = trackingMode === "simulated" ? activeRoute?.path : undefined
+  useEffect(() => {
+    if (trackingMode === "off") {
+      setUserPosition(null)
+      setTrackingError(null)
+      return
+    }
+
+    const feed = trackingMode === "simulated" ? createSimulatedFeed(simulatedPath ?? []) : positionFeed
+    return feed(
+      (position) => {
+        setUserPosition(position)
+        setTrackingError(null)
+      },
+      (message) => {
+        console.log("[v0] Tracking error:", message)
+        setTrackingError(message)
+      },
+    )
+  }, [trackingMode, simulatedPath, positionFeed])
+
+  // Draw the "you are here" marker and its accuracy circle
+  useEffect(() => {
+    if (!mapRef.current || !L) return
+
+    if (!userPosition) {
+      userMarkerRef.current?.remove()
+      accuracyCircleRef.current?.remove()
+      userMarkerRef.current = null
+      accuracyCircleRef.current = null
+      return
+    }
+
+    const latLng = [userPosition.lat, userPosition.lng]
+    if (!userMarkerRef.current) {
+      accuracyCircleRef.current = L.circle(latLng, {
+        radius: userPosition.accuracy,
+        color: "#2563eb",
+        weight: 1,
+        fillOpacity: 0.12,
+        interactive: false,
+      }).addTo(mapRef.current)
+      userMarkerRef.current = L.marker(latLng, {
+        icon: createUserIcon(L, userPosition.heading),
+        title: "You are here",
+        zIndexOffset: 1000,
+      }).addTo(mapRef.current)
+      mapRef.current.panTo(latLng)
+      return
+    }
+
+    accuracyCircleRef.current.setLatLng(latLng).setRadius(userPosition.accuracy)
+    userMarkerRef.current.setLatLng(latLng).setIcon(createUserIcon(L, userPosition.heading))
+  }, [userPosition, L])
+
+  const routeProgress = useMemo(
+    () =>
+      activeRoute && userPosition
+        ? computeRouteProgress(activeRoute.path, userPosition, walkingSpeed(selectedPersona, mobility))
+        : null,
+    [activeRoute, userPosition, selectedPersona, mobility],
+  )
+  // Off campus there are no walkways to reroute onto, so point the way to the best open gate instead
+  const offCampus = userPosition !== null && !isOnCampus(campus.data, userPosition)
+  const offCampusGate = useMemo(
+    () =>
+      userPosition && offCampus
+        ? bestGate(campus.data, userPosition, arrival, {
+            destination: (toPoint ?? selectedLocation) || undefined,
+            time: now,
+          })
+        : null,
+    [campus, userPosition, offCampus, arrival, toPoint, selectedLocation, now],
+  )
+  // The open-places filter applies to destinations, keeping the current pick selectable
+  const destinationOptions = campus.data.locations.filter(
+    (location) => !openOnly || isOpen(location, now) || location.name === selectedLocation,
+  )
+  const indoorBuilding = indoorView && campus.data.locations.find((location) => location.name === indoorView.building)
+  const originName = endpointName(campus.data, rerouteFrom ?? fromPoint ?? fromLocation)
+  const destinationName = endpointName(campus.data, toPoint ?? selectedLocation)
+  const currentStep =
+    routeProgress && activeRoute && !tripMode
+      ? currentStepIndex(
+          activeRoute.steps.map((step) => step.segment),
+          routeProgress.segmentIndex,
+        )
+      : -1
+
+  // Frame the stretch of route a direction step covers and trace it over the route line
+  const showStep = (step: DirectionStep) => {
+    if (!mapRef.current || !L || step.geometry.length === 0) return
+
+    stepLayerRef.current?.remove()
+    stepLayerRef.current = null
+
+    if (step.geometry.length === 1) {
+      mapRef.current.setView(step.geometry[0], 19)
+      return
+    }
+
+    stepLayerRef.current = L.polyline(step.geometry, {
+      color: "#facc15",
+      weight: 8,
+      opacity: 0.9,
+      interactive: false,
+    }).addTo(mapRef.current)
+    mapRef.current.fitBounds(stepLayerRef.current.getBounds(), { padding: [60, 60], maxZoom: 19 })
+  }
+
+  // Strayed from the route: recompute it from where the user actually is
+  useEffect(() => {
+    if (tripMode || !(toPoint ?? selectedLocation) || !routeProgress || !userPosition || offCampus) return
+    if (!isOffRoute(routeProgress, userPosition.accuracy)) return
+    if (Date.now() - lastRerouteRef.current < REROUTE_COOLDOWN_MS) return
+
+    console.log("[v0] Off route by", Math.round(routeProgress.distanceFromRoute), "m, rerouting")
+    lastRerouteRef.current = Date.now()
+    setRerouteFrom({ lat: userPosition.lat, lng: userPosition.lng, name: "your position" })
+  }, [routeProgress, userPosition, offCampus, tripMode, selectedLocation, toPoint])
+
+  // Fly to a location picked from the search box and make it the destination
+  // Rooms found by search route to the room itself when the building has a floor plan, else to its entrance
+  const focusLocation = (location: Location, subLocation?: SubLocation) => {
+    const marker = markersRef.current[campus.data.locations.findIndex((loc) => loc.name === location.name)]
+
+    if (mapRef.current) {
+      mapRef.current.flyTo([location.lat, location.lng], 18, { duration: 1 })
+      if (marker) setTimeout(() => marker.openPopup(), 1000)
+    }
+    if (subLocation?.room) {
+      setToPoint({ location: location.name, room: subLocation.room })
+      setSelectedLocation("")
+    } else {
+      setSelectedLocation(location.name)
+    }
+  }
+
+  if (!L) {
     return (
       <Card className="p-8">
         <div className="flex items-center justify-center">
@@ -405,65 +1072,222 @@ export default function CampusMap({ highlightLocation, routeInfo }: CampusMapPro
       {/* Controls */}
       <Card className="p-4">
         <div className="flex flex-col gap-4">
+          <LocationSearch locations={campus.data.locations} onSelect={focusLocation} />
+
           <div className="flex flex-col sm:flex-row gap-4">
+            {!tripMode && (
+              <>
+                <div className="flex-1 min-w-[200px]">
+                  <label htmlFor="from" className="text-sm font-medium mb-2 block">
+                    <MapPin className="inline-block w-4 h-4 mr-1" />
+                    From
+                  </label>
+                  <Select
+                    value={fromPoint ? POINT_ENDPOINT : fromLocation}
+                    onValueChange={(value) => value !== POINT_ENDPOINT && setFromLocation(value)}
+                  >
+                    <SelectTrigger id="from" aria-label="Select starting location">
+                      <SelectValue placeholder="Choose starting point..." />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {fromPoint && (
+                        <SelectItem value={POINT_ENDPOINT}>
+                          {isRoomRef(fromPoint) ? "🚪" : "📍"} {endpointName(campus.data, fromPoint)}
+                        </SelectItem>
+                      )}
+                      {campus.data.locations.map((location) => (
+                        <SelectItem key={location.name} value={location.name}>
+                          {location.icon} {location.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                <div className="flex-1 min-w-[200px]">
+                  <label htmlFor="destination" className="text-sm font-medium mb-2 block">
+                    <Navigation className="inline-block w-4 h-4 mr-1" />
+                    To
+                  </label>
+                  <Select
+                    value={toPoint ? POINT_ENDPOINT : selectedLocation}
+                    onValueChange={(value) => value !== POINT_ENDPOINT && setSelectedLocation(value)}
+                  >
+                    <SelectTrigger id="destination" aria-label="Select destination">
+                      <SelectValue placeholder="Choose destination..." />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {toPoint && (
+                        <SelectItem value={POINT_ENDPOINT}>
+                          {isRoomRef(toPoint) ? "🚪" : "📍"} {endpointName(campus.data, toPoint)}
+                        </SelectItem>
+                      )}
+                      {destinationOptions.map((location) => (
+                        <SelectItem key={location.name} value={location.name}>
+                          {location.icon} {location.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </>
+            )}
+
             <div className="flex-1 min-w-[200px]">
-              <label htmlFor="from" className="text-sm font-medium mb-2 block">
+              <label htmlFor="persona" className="text-sm font-medium mb-2 block">
                 <MapPin className="inline-block w-4 h-4 mr-1" />
-                From
+                Navigation Style
               </label>
-              <Select value={fromLocation} onValueChange={setFromLocation}>
-                <SelectTrigger id="from" aria-label="Select starting location">
-                  <SelectValue placeholder="Choose starting point..." />
+              <Select value={selectedPersona} onValueChange={(v) => setSelectedPersona(v as Persona)}>
+                <SelectTrigger id="persona" aria-label="Select navigation style">
+                  <SelectValue />
                 </SelectTrigger>
                 <SelectContent>
-                  {campusData.locations.map((location) => (
-                    <SelectItem key={location.name} value={location.name}>
-                      {location.icon} {location.name}
-                    </SelectItem>
-                  ))}
+                  <SelectItem value="faculty">🎓 Faculty (Shortest Path)</SelectItem>
+                  <SelectItem value="new-student">🆕 New Student (Landmarks)</SelectItem>
+                  <SelectItem value="cat-lover">😻 Cat Lover (Cat Spots)</SelectItem>
+                  <SelectItem value="cat-fearful">😰 Cat Fearful (Avoid Cats)</SelectItem>
                 </SelectContent>
               </Select>
             </div>
 
             <div className="flex-1 min-w-[200px]">
-              <label htmlFor="destination" className="text-sm font-medium mb-2 block">
-                <Navigation className="inline-block w-4 h-4 mr-1" />
-                To
+              <label htmlFor="hazards" className="text-sm font-medium mb-2 block">
+                <TriangleAlert className="inline-block w-4 h-4 mr-1" />
+                Hazard Zones
               </label>
-              <Select value={selectedLocation} onValueChange={setSelectedLocation}>
-                <SelectTrigger id="destination" aria-label="Select destination">
-                  <SelectValue placeholder="Choose destination..." />
+              <Select value={hazardAvoidance} onValueChange={(v) => setHazardAvoidance(v as HazardAvoidance)}>
+                <SelectTrigger id="hazards" aria-label="Select hazard handling">
+                  <SelectValue />
                 </SelectTrigger>
                 <SelectContent>
-                  {campusData.locations.map((location) => (
-                    <SelectItem key={location.name} value={location.name}>
-                      {location.icon} {location.name}
-                    </SelectItem>
-                  ))}
+                  <SelectItem value="off">Ignore hazards</SelectItem>
+                  <SelectItem value="penalise">Prefer to avoid</SelectItem>
+                  <SelectItem value="avoid">Always avoid</SelectItem>
                 </SelectContent>
               </Select>
             </div>
 
             <div className="flex-1 min-w-[200px]">
-              <label htmlFor="persona" className="text-sm font-medium mb-2 block">
-                <MapPin className="inline-block w-4 h-4 mr-1" />
-                Navigation Style
+              <label htmlFor="mobility" className="text-sm font-medium mb-2 block">
+                <Footprints className="inline-block w-4 h-4 mr-1" />
+                Pace
               </label>
-              <Select value={selectedPersona} onValueChange={(v) => setSelectedPersona(v as Persona)}>
-                <SelectTrigger id="persona" aria-label="Select navigation style">
+              <Select value={mobility} onValueChange={(v) => setMobility(v as MobilityProfile)}>
+                <SelectTrigger id="mobility" aria-label="Select walking pace">
                   <SelectValue />
                 </SelectTrigger>
                 <SelectContent>
-                  <SelectItem value="faculty">🎓 Faculty (Shortest Path)</SelectItem>
-                  <SelectItem value="new-student">🆕 New Student (Landmarks)</SelectItem>
-                  <SelectItem value="cat-lover">😻 Cat Lover (Cat Spots)</SelectItem>
-                  <SelectItem value="cat-fearful">😰 Cat Fearful (Avoid Cats)</SelectItem>
+                  {(Object.keys(mobilityProfiles) as MobilityProfile[]).map((profile) => (
+                    <SelectItem key={profile} value={profile}>
+                      {mobilityProfiles[profile].label}
+                    </SelectItem>
+                  ))}
                 </SelectContent>
               </Select>
             </div>
+
+            {campus.data.boundary && (
+              <div className="flex-1 min-w-[200px]">
+                <label htmlFor="arrival" className="text-sm font-medium mb-2 block">
+                  <DoorOpen className="inline-block w-4 h-4 mr-1" />
+                  Arriving As
+                </label>
+                <Select
+                  value={arrivalValue(arrival)}
+                  onValueChange={(v) =>
+                    setArrival(arrivals.find((option) => arrivalValue(option.arrival) === v)!.arrival)
+                  }
+                >
+                  <SelectTrigger id="arrival" aria-label="Select how you arrive on campus">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {arrivals.map((option) => (
+                      <SelectItem key={arrivalValue(option.arrival)} value={arrivalValue(option.arrival)}>
+                        {option.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
           </div>
 
-          <div className="flex justify-end">
+          {!tripMode && (
+            <p className="text-xs text-muted-foreground">
+              Tip: use a marker&apos;s popup to route from or to it, or right-click (long-press on touch screens) the
+              map to drop a start or end pin you can drag.
+            </p>
+          )}
+
+          {tripMode && (
+            <TripStops
+              locations={campus.data.locations}
+              stops={tripStops}
+              onStopsChange={setTripStops}
+              optimiseOrder={optimiseTrip}
+              onOptimiseOrderChange={setOptimiseTrip}
+            />
+          )}
+
+          <div className="flex flex-wrap justify-end gap-2">
+            <Button
+              variant={trackingMode === "live" ? "default" : "outline"}
+              size="sm"
+              onClick={() => setTrackingMode(trackingMode === "live" ? "off" : "live")}
+              className="whitespace-nowrap"
+              aria-pressed={trackingMode === "live"}
+              aria-label={trackingMode === "live" ? "Stop live tracking" : "Track my position live"}
+            >
+              <LocateFixed className="w-4 h-4 mr-2" />
+              Live Tracking
+            </Button>
+            <Button
+              variant={trackingMode === "simulated" ? "default" : "outline"}
+              size="sm"
+              onClick={() => setTrackingMode(trackingMode === "simulated" ? "off" : "simulated")}
+              disabled={!activeRoute && trackingMode !== "simulated"}
+              className="whitespace-nowrap"
+              aria-pressed={trackingMode === "simulated"}
+              aria-label={trackingMode === "simulated" ? "Stop simulated walk" : "Simulate walking the route"}
+            >
+              <Footprints className="w-4 h-4 mr-2" />
+              Simulate Walk
+            </Button>
+            <Button
+              variant={tripMode ? "default" : "outline"}
+              size="sm"
+              onClick={() => setTripMode(!tripMode)}
+              className="whitespace-nowrap"
+              aria-pressed={tripMode}
+              aria-label={tripMode ? "Switch to a single route" : "Plan a multi-stop trip"}
+            >
+              <RouteIcon className="w-4 h-4 mr-2" />
+              Multi-Stop Trip
+            </Button>
+            <Button
+              variant={nightMode ? "default" : "outline"}
+              size="sm"
+              onClick={() => setNightMode(!nightMode)}
+              className="whitespace-nowrap"
+              aria-pressed={nightMode}
+              aria-label={nightMode ? "Use current time for hazards" : "Plan for night-time hazards"}
+            >
+              <Moon className="w-4 h-4 mr-2" />
+              Night Mode
+            </Button>
+            <Button
+              variant={openOnly ? "default" : "outline"}
+              size="sm"
+              onClick={() => setOpenOnly(!openOnly)}
+              className="whitespace-nowrap"
+              aria-pressed={openOnly}
+              aria-label={openOnly ? "Show all places" : "Show only places that are open"}
+            >
+              <Clock className="w-4 h-4 mr-2" />
+              Open Now
+            </Button>
             <Button
               variant="outline"
               size="sm"
@@ -476,20 +1300,103 @@ export default function CampusMap({ highlightLocation, routeInfo }: CampusMapPro
             </Button>
           </div>
 
-          {currentDirections.length > 0 && (
+          {trackingError && trackingMode !== "off" && (
+            <p className="text-sm text-amber-600" role="alert">
+              Location unavailable: {trackingError}
+            </p>
+          )}
+
+          {rerouteFrom && !tripMode && (
+            <p className="text-sm text-amber-600 flex items-center gap-2" role="alert">
+              <TriangleAlert className="w-4 h-4" />
+              You&apos;re off route - directions now start from your current position.
+            </p>
+          )}
+
+          {offCampus && (
+            <div className="flex flex-wrap items-center gap-2" role="alert">
+              <p className="text-sm text-amber-600 flex items-center gap-2">
+                <TriangleAlert className="w-4 h-4" />
+                {offCampusGate
+                  ? `You're outside ${campus.name} - head to ${offCampusGate.gate.name} (${formatDistance(offCampusGate.distance)} away) to join the campus walkways.`
+                  : `You're outside ${campus.name}, and none of its gates are open to ${describeArrival(arrival)} right now.`}
+              </p>
+              {offCampusGate && !tripMode && selectedLocation && offCampusGate.location.name !== selectedLocation && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => {
+                    setFromLocation(offCampusGate.location.name)
+                    setEntryGate({ gate: offCampusGate.gate.name, location: offCampusGate.location.name })
+                  }}
+                >
+                  <DoorOpen className="w-4 h-4" />
+                  Route in from {offCampusGate.gate.name}
+                </Button>
+              )}
+            </div>
+          )}
+
+          {routeProgress && (
+            <div
+              className="p-3 rounded-lg border flex flex-wrap items-center gap-x-4 gap-y-1 text-sm"
+              aria-live="polite"
+            >
+              <LocateFixed className="w-4 h-4 text-primary" />
+              {routeProgress.arrived ? (
+                <span className="font-semibold">You have arrived!</span>
+              ) : (
+                <>
+                  <span>
+                    <span className="font-semibold">{Math.round(routeProgress.remainingDistance)}m</span> remaining
+                  </span>
+                  <span>
+                    ETA <span className="font-semibold">{formatDuration(routeProgress.etaSeconds)}</span>
+                  </span>
+                </>
+              )}
+              {userPosition && (
+                <span className="text-xs text-muted-foreground ml-auto">
+                  ±{Math.round(userPosition.accuracy)}m accuracy
+                </span>
+              )}
+            </div>
+          )}
+
+          {currentTrip && (
+            <div className="p-3 bg-muted rounded-lg space-y-3">
+              <h3 className="font-semibold flex items-center gap-2">
+                <RouteIcon className="w-4 h-4" />
+                Trip: {currentTrip.stops.join(" → ")}
+                <Badge variant="outline" className="ml-auto">
+                  {Math.round(currentTrip.totalDistance)}m · {formatDuration(currentTrip.totalDuration)} total
+                </Badge>
+              </h3>
+              {currentTrip.legs.map((leg, legIndex) => (
+                <div key={`${leg.from}-${leg.to}-${legIndex}`}>
+                  <p className="text-sm font-medium mb-1">
+                    Leg {legIndex + 1}: {leg.from} → {leg.to} ({Math.round(leg.distance)}m,{" "}
+                    {formatDuration(leg.duration)}
+                    {leg.route.source === "curated" ? ", curated" : ""})
+                  </p>
+                  <DirectionSteps steps={leg.route.steps} onStepSelect={showStep} />
+                </div>
+              ))}
+            </div>
+          )}
+
+          {currentSteps.length > 0 && (
             <div className="p-3 bg-muted rounded-lg">
               <h3 className="font-semibold mb-2 flex items-center gap-2">
                 <Navigation className="w-4 h-4" />
-                Turn-by-Turn Directions: {fromLocation} → {selectedLocation}
+                Turn-by-Turn Directions: {originName} → {destinationName}
+                {routeSource && (
+                  <Badge variant={routeSource === "curated" ? "default" : "outline"} className="ml-auto">
+                    {routeSource === "curated" ? "Curated route" : "Computed route"}
+                  </Badge>
+                )}
               </h3>
-              <ol className="space-y-1 text-sm">
-                {currentDirections.map((direction, index) => (
-                  <li key={index} className="flex gap-2">
-                    <span className="font-semibold text-muted-foreground min-w-[20px]">{index + 1}.</span>
-                    <span>{direction}</span>
-                  </li>
-                ))}
-              </ol>
+              <DirectionSteps steps={currentSteps} currentStep={currentStep} onStepSelect={showStep} />
             </div>
           )}
         </div>
@@ -554,21 +1461,35 @@ export default function CampusMap({ highlightLocation, routeInfo }: CampusMapPro
       )}
 
       {/* Map Container */}
-      <Card className="overflow-hidden">
+      <Card className="overflow-hidden relative">
         <div
           ref={mapContainerRef}
           className="w-full h-[500px] md:h-[600px] lg:h-[700px]"
           role="application"
           aria-label="Interactive campus map"
         />
+        {indoorBuilding && indoorView && (
+          <FloorSwitcher
+            building={indoorBuilding}
+            level={indoorView.level}
+            onLevelChange={(level) => setIndoorView({ ...indoorView, level })}
+            onClose={() => setIndoorView(null)}
+          />
+        )}
       </Card>
 
       {/* Accessibility Info */}
       <div className="sr-only" aria-live="polite" aria-atomic="true">
-        {fromLocation && selectedLocation && currentDirections.length > 0 && (
+        {currentTrip && (
+          <p>
+            Trip planned through {currentTrip.stops.length} stops using {selectedPersona} navigation style,{" "}
+            {Math.round(currentTrip.totalDistance)} meters in total.
+          </p>
+        )}
+        {originName && destinationName && currentSteps.length > 0 && (
           <p>
-            Route selected from {fromLocation} to {selectedLocation} using {selectedPersona} navigation style.
-            {currentDirections.length} steps in directions.
+            Route selected from {originName} to {destinationName} using {selectedPersona} navigation style.
+            {currentSteps.length} steps in directions.
           </p>
         )}
       </div>
@@ -0,0 +1,74 @@
+"use client"
+
+import { useState } from "react"
+import Link from "next/link"
+import CampusMap from "@/components/campus-map"
+import AINavigator from "@/components/ai-navigator"
+import type { Location } from "@/lib/campus-data"
+import { campuses, getCampus } from "@/lib/campuses"
+import type { RouteEndpoint } from "@/lib/path-network"
+import type { TravelProfile } from "@/lib/walking-time"
+
+interface CampusViewProps {
+  // Registry id from the URL; the page has already checked it exists
+  campusId: string
+}
+
+interface RouteInfo {
+  from: RouteEndpoint
+  to: string
+  gate?: string // gate a route in from off campus enters by
+}
+
+export default function CampusView({ campusId }: CampusViewProps) {
+  const campus = getCampus(campusId)!
+  const [highlightedLocation, setHighlightedLocation] = useState<Location | null>(null)
+  const [highlightedLocations, setHighlightedLocations] = useState<Location[]>([])
+  const [routeInfo, setRouteInfo] = useState<RouteInfo | null>(null)
+  const [travelProfile, setTravelProfile] = useState<TravelProfile>()
+
+  return (
+    <main className="min-h-screen bg-background">
+      <div className="container mx-auto p-4 md:p-6 lg:p-8">
+        <div className="mb-6 space-y-2">
+          <h1 className="text-3xl md:text-4xl font-bold text-foreground">Adaptive Campus Navigator</h1>
+          <p className="text-muted-foreground text-balance">
+            <span className="font-semibold" style={{ color: campus.branding.accent }}>
+              {campus.branding.logo} {campus.name}
+            </span>{" "}
+            · {campus.branding.tagline}
+          </p>
+          {campuses.length > 1 && (
+            <nav className="flex flex-wrap gap-3 text-sm" aria-label="Campuses">
+              {campuses
+                .filter((other) => other.id !== campus.id)
+                .map((other) => (
+                  <Link key={other.id} href={`/${other.id}`} className="underline underline-offset-4">
+                    {other.branding.logo} {other.name}
+                  </Link>
+                ))}
+            </nav>
+          )}
+        </div>
+
+        <div className="mb-6">
+          <AINavigator
+            campus={campus}
+            onLocationFound={setHighlightedLocation}
+            onLocationsFound={setHighlightedLocations}
+            onRouteRequest={setRouteInfo}
+            travelProfile={travelProfile}
+          />
+        </div>
+
+        <CampusMap
+          campus={campus}
+          highlightLocation={highlightedLocation}
+          highlightLocations={highlightedLocations}
+          routeInfo={routeInfo}
+          onTravelProfileChange={setTravelProfile}
+        />
+      </div>
+    </main>
+  )
+}
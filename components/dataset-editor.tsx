@@ -0,0 +1,554 @@
+"use client"
+
+import type React from "react"
+
+import { useEffect, useMemo, useRef, useState } from "react"
+import { Card } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import DirectionSteps from "@/components/direction-steps"
+import LocationForm from "@/components/location-form"
+import WalkwayForm from "@/components/walkway-form"
+import { useLeaflet } from "@/hooks/use-leaflet"
+import type { CampusData, Persona } from "@/lib/campus-data"
+import { getCampus } from "@/lib/campuses"
+import { CampusDataError, formatCampusDataset, parseCampusDataset, type CampusDataset } from "@/lib/campus-schema"
+import {
+  addJunction,
+  addLocation,
+  addWalkway,
+  moveLocation,
+  nodeName,
+  nodePosition,
+  removeJunction,
+  removeLocation,
+  removeWalkway,
+  renameLocation,
+  updateJunction,
+  updateLocation,
+  updateWalkway,
+} from "@/lib/dataset-edits"
+import { locationNodeId } from "@/lib/path-network"
+import { resolveRoute } from "@/lib/route-resolver"
+import { escapeHtml } from "@/lib/utils"
+import { Download, MapPin, MousePointer2, Route as RouteIcon, Save, Spline, Trash2, Upload } from "lucide-react"
+
+interface DatasetEditorProps {
+  campusId: string
+}
+
+// What clicking on the map does
+type EditMode = "select" | "add-location" | "add-junction" | "draw-walkway"
+
+type Selection =
+  { kind: "location"; index: number } | { kind: "junction"; index: number } | { kind: "walkway"; index: number }
+
+const modes: { mode: EditMode; label: string; icon: React.ElementType }[] = [
+  { mode: "select", label: "Select & move", icon: MousePointer2 },
+  { mode: "add-location", label: "Add location", icon: MapPin },
+  { mode: "add-junction", label: "Add junction", icon: Spline },
+  { mode: "draw-walkway", label: "Draw walkway", icon: RouteIcon },
+]
+
+const modeHints: Record<EditMode, string> = {
+  select: "Click a marker or walkway to edit it; drag markers to move them.",
+  "add-location": "Click the map where the new location is.",
+  "add-junction": "Click the map where walkways meet.",
+  "draw-walkway": "Click two markers in turn to join them with a walkway.",
+}
+
+const personaLabels: Record<Persona, string> = {
+  faculty: "🎓 Faculty (Shortest Path)",
+  "new-student": "🆕 New Student (Landmarks)",
+  "cat-lover": "😻 Cat Lover (Cat Spots)",
+  "cat-fearful": "😰 Cat Fearful (Avoid Cats)",
+}
+
+// The dataset as the app would load it, or every reason it wouldn't
+function validate(dataset: CampusDataset): { data: CampusData | null; issues: string[] } {
+  try {
+    return { data: parseCampusDataset(dataset), issues: [] }
+  } catch (error) {
+    if (error instanceof CampusDataError) return { data: null, issues: error.issues }
+    throw error
+  }
+}
+
+function markerIcon(L: any, label: string, selected: boolean, junction: boolean) {
+  const size = junction ? 14 : 28
+  return L.divIcon({
+    className: "editor-marker",
+    html: junction
+      ? `<div style="width: ${size}px; height: ${size}px; border-radius: 50%; background: ${selected ? "#2563eb" : "#334155"}; border: 2px solid white; box-shadow: 0 1px 4px rgba(0,0,0,0.4);"></div>`
+      : `<div style="width: ${size}px; height: ${size}px; border-radius: 50%; background: white; border: 3px solid ${selected ? "#2563eb" : "#6366f1"}; display: flex; align-items: center; justify-content: center; font-size: 14px; box-shadow: 0 2px 6px rgba(0,0,0,0.3);">${escapeHtml(label)}</div>`,
+    iconSize: [size, size],
+    iconAnchor: [size / 2, size / 2],
+  })
+}
+
+export default function DatasetEditor({ campusId }: DatasetEditorProps) {
+  const campus = getCampus(campusId)!
+  const L = useLeaflet()
+  const mapRef = useRef<any>(null)
+  const mapContainerRef = useRef<HTMLDivElement>(null)
+  const datasetLayerRef = useRef<any>(null)
+  const routeLayerRef = useRef<any>(null)
+  const fileInputRef = useRef<HTMLInputElement>(null)
+  // Map clicks go through a ref, since the handler is bound once when the map is created
+  const mapClickRef = useRef<(lat: number, lng: number) => void>(() => {})
+
+  const [dataset, setDataset] = useState<CampusDataset | null>(null)
+  const [loadError, setLoadError] = useState<string | null>(null)
+  const [dirty, setDirty] = useState(false)
+  const [saving, setSaving] = useState(false)
+  const [status, setStatus] = useState<{ message: string; issues?: string[] } | null>(null)
+  const [mode, setMode] = useState<EditMode>("select")
+  const [selection, setSelection] = useState<Selection | null>(null)
+  // First end of a walkway being drawn
+  const [walkwayStart, setWalkwayStart] = useState<string | null>(null)
+  const [previewFrom, setPreviewFrom] = useState("")
+  const [previewTo, setPreviewTo] = useState("")
+  const [previewPersona, setPreviewPersona] = useState<Persona>("new-student")
+
+  const edit = (change: (current: CampusDataset) => CampusDataset) => {
+    setDataset((current) => current && change(current))
+    setDirty(true)
+  }
+
+  // Load the campus's file from the dataset store
+  useEffect(() => {
+    fetch(`/api/admin/datasets/${campusId}`)
+      .then(async (response) => {
+        const body = await response.json()
+        if (!response.ok) throw new Error(body.error ?? `Dataset store responded with ${response.status}`)
+        setDataset(body as CampusDataset)
+      })
+      .catch((error) => {
+        console.log("[v0] Could not load campus dataset:", error)
+        setLoadError(`${error.message}. You can still import a dataset file.`)
+      })
+  }, [campusId])
+
+  // Unsaved edits would be lost on leaving the page
+  useEffect(() => {
+    if (!dirty) return
+    const warn = (event: BeforeUnloadEvent) => event.preventDefault()
+    window.addEventListener("beforeunload", warn)
+    return () => window.removeEventListener("beforeunload", warn)
+  }, [dirty])
+
+  const validation = useMemo(() => (dataset ? validate(dataset) : null), [dataset])
+
+  const previewRoute = useMemo(() => {
+    if (!validation?.data || !previewFrom || !previewTo || previewFrom === previewTo) return null
+    return resolveRoute(validation.data, previewFrom, previewTo, previewPersona)
+  }, [validation, previewFrom, previewTo, previewPersona])
+
+  // Initialize map
+  useEffect(() => {
+    if (!mapContainerRef.current || mapRef.current || !L) return
+
+    const map = L.map(mapContainerRef.current, {
+      center: campus.center,
+      zoom: campus.zoom + 1,
+      minZoom: campus.minZoom,
+      maxZoom: campus.maxZoom,
+      maxBounds: campus.bounds,
+    })
+    L.tileLayer("https://server.arcgisonline.com/ArcGIS/rest/services/World_Imagery/MapServer/tile/{z}/{y}/{x}", {
+      attribution: "Tiles &copy; Esri",
+      maxZoom: 19,
+    }).addTo(map)
+
+    datasetLayerRef.current = L.layerGroup().addTo(map)
+    routeLayerRef.current = L.layerGroup().addTo(map)
+    map.on("click", (event: any) => mapClickRef.current(event.latlng.lat, event.latlng.lng))
+    mapRef.current = map
+    setTimeout(() => map.invalidateSize(), 100)
+
+    return () => {
+      map.remove()
+      mapRef.current = null
+    }
+  }, [L])
+
+  mapClickRef.current = (lat, lng) => {
+    if (mode === "add-location") {
+      edit((current) => addLocation(current, lat, lng))
+      setSelection({ kind: "location", index: dataset?.locations.features.length ?? 0 })
+      setMode("select")
+    } else if (mode === "add-junction") {
+      edit((current) => addJunction(current, lat, lng))
+      setSelection({ kind: "junction", index: dataset?.walkways.junctions.features.length ?? 0 })
+    } else {
+      setSelection(null)
+    }
+  }
+
+  const clickNode = (id: string, selected: Selection) => {
+    if (mode !== "draw-walkway") {
+      setSelection(selected)
+      return
+    }
+    if (!walkwayStart) {
+      setWalkwayStart(id)
+      return
+    }
+    edit((current) => addWalkway(current, walkwayStart, id))
+    setWalkwayStart(null)
+  }
+
+  // Draw every location, junction and walkway; redrawn on each edit, which is quick at campus scale
+  useEffect(() => {
+    const layer = datasetLayerRef.current
+    if (!L || !layer || !dataset) return
+    layer.clearLayers()
+
+    if (dataset.boundary) {
+      L.polygon(
+        dataset.boundary.geometry.coordinates[0].map(([lng, lat]) => [lat, lng]),
+        { color: "#f8fafc", weight: 2, dashArray: "8 6", fill: false, interactive: false },
+      ).addTo(layer)
+    }
+
+    dataset.walkways.edges.forEach((edge, index) => {
+      const from = nodePosition(dataset, edge.from)
+      const to = nodePosition(dataset, edge.to)
+      if (!from || !to) return
+
+      const selected = selection?.kind === "walkway" && selection.index === index
+      L.polyline([from, to], {
+        color: selected ? "#2563eb" : edge.attributes?.paved === false ? "#a16207" : "#f8fafc",
+        weight: selected ? 7 : 5,
+        opacity: 0.9,
+        dashArray: edge.attributes?.steps ? "4 6" : undefined,
+        bubblingMouseEvents: false,
+      })
+        .addTo(layer)
+        .bindTooltip(escapeHtml(`${nodeName(dataset, edge.from)} ↔ ${nodeName(dataset, edge.to)}`))
+        .on("click", () => mode !== "draw-walkway" && setSelection({ kind: "walkway", index }))
+    })
+
+    dataset.walkways.junctions.features.forEach((feature, index) => {
+      const { id, name } = feature.properties
+      const selected = (selection?.kind === "junction" && selection.index === index) || walkwayStart === id
+      L.marker([feature.geometry.coordinates[1], feature.geometry.coordinates[0]], {
+        icon: markerIcon(L, "", selected, true),
+        draggable: mode === "select",
+        title: name,
+      })
+        .addTo(layer)
+        .on("click", () => clickNode(id, { kind: "junction", index }))
+        .on("dragend", (event: any) => {
+          const { lat, lng } = event.target.getLatLng()
+          edit((current) => updateJunction(current, index, { lat, lng }))
+        })
+    })
+
+    dataset.locations.features.forEach((feature, index) => {
+      const { name, icon } = feature.properties
+      const id = locationNodeId(name)
+      const selected = (selection?.kind === "location" && selection.index === index) || walkwayStart === id
+      L.marker([feature.geometry.coordinates[1], feature.geometry.coordinates[0]], {
+        icon: markerIcon(L, icon, selected, false),
+        draggable: mode === "select",
+        title: name,
+      })
+        .addTo(layer)
+        .on("click", () => clickNode(id, { kind: "location", index }))
+        .on("dragend", (event: any) => {
+          const { lat, lng } = event.target.getLatLng()
+          edit((current) => moveLocation(current, index, lat, lng))
+        })
+    })
+  }, [L, dataset, selection, mode, walkwayStart])
+
+  // Draw the previewed route over the dataset
+  useEffect(() => {
+    const layer = routeLayerRef.current
+    if (!L || !layer) return
+    layer.clearLayers()
+    if (!previewRoute) return
+
+    L.polyline(
+      previewRoute.path.map((node) => [node.lat, node.lng]),
+      { color: "#16a34a", weight: 4, opacity: 0.9, interactive: false },
+    ).addTo(layer)
+  }, [L, previewRoute])
+
+  const changeMode = (next: EditMode) => {
+    setMode(next)
+    setWalkwayStart(null)
+  }
+
+  const save = async () => {
+    if (!dataset) return
+    setSaving(true)
+    try {
+      const response = await fetch(`/api/admin/datasets/${campusId}`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(dataset),
+      })
+      const body = await response.json()
+      if (!response.ok) {
+        setStatus({ message: body.error ?? `Saving failed with ${response.status}`, issues: body.issues })
+        return
+      }
+      setDirty(false)
+      setStatus({ message: `Saved data/campuses/${campusId}.json` })
+    } catch (error) {
+      console.log("[v0] Saving campus dataset failed:", error)
+      setStatus({ message: "Couldn't reach the dataset store." })
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const exportDataset = () => {
+    if (!dataset) return
+    const url = URL.createObjectURL(new Blob([formatCampusDataset(dataset)], { type: "application/json" }))
+    const link = document.createElement("a")
+    link.href = url
+    link.download = `${campusId}.json`
+    link.click()
+    URL.revokeObjectURL(url)
+  }
+
+  // Only files the app could load are imported, so the editor always has a well-formed dataset to draw
+  const importDataset = async (file: File) => {
+    let raw: unknown
+    try {
+      raw = JSON.parse(await file.text())
+    } catch {
+      setStatus({ message: `${file.name} isn't valid JSON.` })
+      return
+    }
+
+    const { issues } = validate(raw as CampusDataset)
+    if (issues.length > 0) {
+      setStatus({ message: `${file.name} wasn't imported:`, issues })
+      return
+    }
+    setDataset(raw as CampusDataset)
+    setSelection(null)
+    setLoadError(null)
+    setDirty(true)
+    setStatus({ message: `Imported ${file.name} - save to write it to disk.` })
+  }
+
+  const selectedLocation = selection?.kind === "location" && dataset?.locations.features[selection.index]
+  const selectedJunction = selection?.kind === "junction" && dataset?.walkways.junctions.features[selection.index]
+  const selectedWalkway = selection?.kind === "walkway" && dataset?.walkways.edges[selection.index]
+  const locationNames = dataset?.locations.features.map((feature) => feature.properties.name) ?? []
+
+  if (!L) {
+    return (
+      <Card className="p-8">
+        <div className="flex items-center justify-center">
+          <div className="text-center space-y-2">
+            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary mx-auto" />
+            <p className="text-muted-foreground">Loading editor map...</p>
+          </div>
+        </div>
+      </Card>
+    )
+  }
+
+  return (
+    <div className="space-y-4">
+      <Card className="p-4">
+        <div className="flex flex-wrap items-center gap-2">
+          {modes.map(({ mode: option, label, icon: Icon }) => (
+            <Button
+              key={option}
+              variant={mode === option ? "default" : "outline"}
+              size="sm"
+              onClick={() => changeMode(option)}
+              aria-pressed={mode === option}
+            >
+              <Icon className="w-4 h-4" />
+              {label}
+            </Button>
+          ))}
+          <div className="flex-1" />
+          <Button variant="outline" size="sm" onClick={() => fileInputRef.current?.click()}>
+            <Upload className="w-4 h-4" />
+            Import
+          </Button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept="application/json,.json"
+            className="hidden"
+            onChange={(event) => {
+              const file = event.target.files?.[0]
+              if (file) importDataset(file)
+              event.target.value = ""
+            }}
+          />
+          <Button variant="outline" size="sm" onClick={exportDataset} disabled={!dataset}>
+            <Download className="w-4 h-4" />
+            Export
+          </Button>
+          <Button
+            size="sm"
+            onClick={save}
+            disabled={!dataset || !dirty || saving || (validation?.issues.length ?? 0) > 0}
+          >
+            <Save className="w-4 h-4" />
+            {saving ? "Saving..." : "Save"}
+          </Button>
+        </div>
+        <p className="text-sm text-muted-foreground mt-2">
+          {mode === "draw-walkway" && walkwayStart
+            ? `Walkway from ${dataset ? nodeName(dataset, walkwayStart) : walkwayStart} - click where it goes.`
+            : modeHints[mode]}
+        </p>
+        {loadError && <p className="text-sm text-destructive mt-2">{loadError}</p>}
+        {status && (
+          <div className="text-sm mt-2" role="status">
+            <p className="font-medium">{status.message}</p>
+            {status.issues && (
+              <ul className="list-disc pl-5 text-destructive">
+                {status.issues.map((issue) => (
+                  <li key={issue}>{issue}</li>
+                ))}
+              </ul>
+            )}
+          </div>
+        )}
+      </Card>
+
+      <div className="grid gap-4 lg:grid-cols-[1fr_320px]">
+        <Card className="p-0 overflow-hidden">
+          <div ref={mapContainerRef} className="w-full h-[640px]" />
+        </Card>
+
+        <div className="space-y-4">
+          <Card className="p-4">
+            {selectedLocation ? (
+              <LocationForm
+                key={selection!.index}
+                properties={selectedLocation.properties}
+                onChange={(properties) => edit((current) => updateLocation(current, selection!.index, properties))}
+                onRename={(name) => edit((current) => renameLocation(current, selection!.index, name))}
+                onDelete={() => {
+                  edit((current) => removeLocation(current, selection!.index))
+                  setSelection(null)
+                }}
+              />
+            ) : selectedJunction ? (
+              <div className="space-y-3">
+                <div>
+                  <label htmlFor="junction-name" className="text-sm font-medium mb-1 block">
+                    Junction name
+                  </label>
+                  <Input
+                    id="junction-name"
+                    value={selectedJunction.properties.name}
+                    onChange={(event) =>
+                      edit((current) => updateJunction(current, selection!.index, { name: event.target.value }))
+                    }
+                  />
+                  <p className="text-xs text-muted-foreground mt-1">Id: {selectedJunction.properties.id}</p>
+                </div>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="text-destructive"
+                  onClick={() => {
+                    edit((current) => removeJunction(current, selection!.index))
+                    setSelection(null)
+                  }}
+                >
+                  <Trash2 className="w-4 h-4" />
+                  Delete junction
+                </Button>
+              </div>
+            ) : selectedWalkway && dataset ? (
+              <WalkwayForm
+                edge={selectedWalkway}
+                fromName={nodeName(dataset, selectedWalkway.from)}
+                toName={nodeName(dataset, selectedWalkway.to)}
+                onChange={(edge) => edit((current) => updateWalkway(current, selection!.index, edge))}
+                onDelete={() => {
+                  edit((current) => removeWalkway(current, selection!.index))
+                  setSelection(null)
+                }}
+              />
+            ) : (
+              <p className="text-sm text-muted-foreground">Nothing selected.</p>
+            )}
+          </Card>
+
+          {validation && validation.issues.length > 0 && (
+            <Card className="p-4">
+              <p className="text-sm font-medium mb-2">Fix these before saving:</p>
+              <ul className="list-disc pl-5 text-sm text-destructive space-y-1">
+                {validation.issues.map((issue) => (
+                  <li key={issue}>{issue}</li>
+                ))}
+              </ul>
+            </Card>
+          )}
+
+          <Card className="p-4 space-y-3">
+            <p className="text-sm font-medium">
+              <RouteIcon className="inline-block w-4 h-4 mr-1" />
+              Preview routing
+            </p>
+            <Select value={previewFrom} onValueChange={setPreviewFrom}>
+              <SelectTrigger aria-label="Preview route from">
+                <SelectValue placeholder="From..." />
+              </SelectTrigger>
+              <SelectContent>
+                {locationNames.map((name) => (
+                  <SelectItem key={name} value={name}>
+                    {name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select value={previewTo} onValueChange={setPreviewTo}>
+              <SelectTrigger aria-label="Preview route to">
+                <SelectValue placeholder="To..." />
+              </SelectTrigger>
+              <SelectContent>
+                {locationNames.map((name) => (
+                  <SelectItem key={name} value={name}>
+                    {name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select value={previewPersona} onValueChange={(value) => setPreviewPersona(value as Persona)}>
+              <SelectTrigger aria-label="Preview persona">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(personaLabels) as Persona[]).map((persona) => (
+                  <SelectItem key={persona} value={persona}>
+                    {personaLabels[persona]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {previewRoute ? (
+              <DirectionSteps steps={previewRoute.steps} />
+            ) : (
+              previewFrom &&
+              previewTo &&
+              previewFrom !== previewTo && (
+                <p className="text-sm text-muted-foreground">
+                  {validation?.data ? "No walkway connects these locations." : "Fix the dataset to preview routes."}
+                </p>
+              )
+            )}
+          </Card>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,59 @@
+"use client"
+
+import { formatDirectionStep, type DirectionStep } from "@/lib/directions"
+import { formatDuration } from "@/lib/walking-time"
+
+interface DirectionStepsProps {
+  steps: DirectionStep[]
+  // Index of the step the user is on while tracking, -1 for none
+  currentStep?: number
+  onStepSelect?: (step: DirectionStep) => void
+}
+
+const stepTone: Partial<Record<DirectionStep["type"], string>> = {
+  warning: "text-amber-700 dark:text-amber-400",
+  "step-free-warning": "text-amber-700 dark:text-amber-400",
+  gate: "font-medium",
+  entrance: "font-medium",
+  building: "font-medium",
+  tip: "text-muted-foreground italic",
+  summary: "font-medium",
+}
+
+export default function DirectionSteps({ steps, currentStep = -1, onStepSelect }: DirectionStepsProps) {
+  return (
+    <ol className="space-y-1 text-sm">
+      {steps.map((step, index) => {
+        const current = index === currentStep
+        const selectable = onStepSelect && step.geometry.length > 0
+
+        return (
+          <li
+            key={index}
+            className={`rounded ${current ? "bg-primary/10 font-medium" : ""}`}
+            aria-current={current ? "step" : undefined}
+          >
+            <button
+              type="button"
+              onClick={() => selectable && onStepSelect(step)}
+              disabled={!selectable}
+              className="flex w-full gap-2 px-1 text-left rounded enabled:hover:bg-primary/5 enabled:cursor-pointer"
+              aria-label={selectable ? `${formatDirectionStep(step)} - show on map` : undefined}
+            >
+              <span className="font-semibold text-muted-foreground min-w-[20px]">{index + 1}.</span>
+              <span className={`flex-1 ${stepTone[step.type] ?? ""}`}>{formatDirectionStep(step)}</span>
+              {step.type === "move" && (
+                <span className="text-xs text-muted-foreground whitespace-nowrap">
+                  {Math.round(step.distance)}m · {formatDuration(step.duration)}
+                </span>
+              )}
+              {step.type === "floor" && (
+                <span className="text-xs text-muted-foreground whitespace-nowrap">{formatDuration(step.duration)}</span>
+              )}
+            </button>
+          </li>
+        )
+      })}
+    </ol>
+  )
+}
@@ -0,0 +1,46 @@
+"use client"
+
+import { Button } from "@/components/ui/button"
+import type { Location } from "@/lib/campus-data"
+import { Layers, X } from "lucide-react"
+
+interface FloorSwitcherProps {
+  building: Location
+  level: number
+  onLevelChange: (level: number) => void
+  onClose: () => void
+}
+
+export default function FloorSwitcher({ building, level, onLevelChange, onClose }: FloorSwitcherProps) {
+  // Top floor first, the way a lift panel reads
+  const floors = [...(building.indoor?.floors ?? [])].sort((a, b) => b.level - a.level)
+
+  return (
+    <div
+      className="absolute top-3 right-3 z-[1000] w-44 rounded-md border bg-background/95 p-2 shadow-md"
+      role="group"
+      aria-label={`Floors of ${building.name}`}
+    >
+      <div className="flex items-center gap-1 mb-2 text-sm font-medium">
+        <Layers className="w-4 h-4 shrink-0" />
+        <span className="flex-1 truncate">{building.name}</span>
+        <Button variant="ghost" size="icon-sm" onClick={onClose} aria-label="Close floor plan">
+          <X className="w-4 h-4" />
+        </Button>
+      </div>
+      <div className="flex flex-col gap-1">
+        {floors.map((floor) => (
+          <Button
+            key={floor.level}
+            variant={floor.level === level ? "default" : "outline"}
+            size="sm"
+            onClick={() => onLevelChange(floor.level)}
+            aria-pressed={floor.level === level}
+          >
+            {floor.name}
+          </Button>
+        ))}
+      </div>
+    </div>
+  )
+}
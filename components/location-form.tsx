@@ -0,0 +1,163 @@
+"use client"
+
+import { useEffect, useRef, useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import type { LocationType } from "@/lib/campus-data"
+import type { CampusDataset } from "@/lib/campus-schema"
+import { Trash2 } from "lucide-react"
+
+export type LocationProperties = CampusDataset["locations"]["features"][number]["properties"]
+
+interface LocationFormProps {
+  properties: LocationProperties
+  onChange: (properties: LocationProperties) => void
+  // Renames are committed on Enter, on blur and when the form closes, so walkways and routes are only
+  // re-pointed once the new name is final
+  onRename: (name: string) => void
+  onDelete: () => void
+}
+
+const locationTypes: LocationType[] = [
+  "default",
+  "study",
+  "food",
+  "sports",
+  "medical",
+  "hostel",
+  "romantic",
+  "inclusive",
+  "warning",
+]
+
+export default function LocationForm({ properties, onChange, onRename, onDelete }: LocationFormProps) {
+  const update = (changes: Partial<LocationProperties>) => onChange({ ...properties, ...changes })
+
+  // Picking another location, importing a dataset or a committed rename resets what's typed
+  const [name, setName] = useState(properties.name)
+  const savedName = useRef(properties.name)
+  useEffect(() => {
+    setName(properties.name)
+    savedName.current = properties.name
+  }, [properties.name])
+
+  const commitRename = () => {
+    const trimmed = name.trim()
+    if (trimmed === savedName.current) return
+    savedName.current = trimmed
+    onRename(trimmed)
+  }
+
+  // Clicking the map closes the form without blurring the input, so commit whatever is left when it goes away
+  const commitOnClose = useRef(commitRename)
+  commitOnClose.current = commitRename
+  useEffect(() => () => commitOnClose.current(), [])
+
+  return (
+    <div className="space-y-3">
+      <div>
+        <label htmlFor="location-name" className="text-sm font-medium mb-1 block">
+          Name
+        </label>
+        <Input
+          id="location-name"
+          value={name}
+          onChange={(event) => setName(event.target.value)}
+          onKeyDown={(event) => event.key === "Enter" && commitRename()}
+          onBlur={commitRename}
+        />
+      </div>
+
+      <div className="flex gap-2">
+        <div className="w-20">
+          <label htmlFor="location-icon" className="text-sm font-medium mb-1 block">
+            Icon
+          </label>
+          <Input
+            id="location-icon"
+            value={properties.icon}
+            onChange={(event) => update({ icon: event.target.value })}
+          />
+        </div>
+        <div className="flex-1">
+          <label htmlFor="location-type" className="text-sm font-medium mb-1 block">
+            Type
+          </label>
+          <Select value={properties.type} onValueChange={(type) => update({ type: type as LocationType })}>
+            <SelectTrigger id="location-type">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {locationTypes.map((type) => (
+                <SelectItem key={type} value={type}>
+                  {type}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      <div>
+        <label htmlFor="location-description" className="text-sm font-medium mb-1 block">
+          Description
+        </label>
+        <textarea
+          id="location-description"
+          value={properties.description}
+          onChange={(event) => update({ description: event.target.value })}
+          rows={3}
+          className="w-full rounded-md border bg-transparent px-3 py-2 text-sm shadow-xs"
+        />
+      </div>
+
+      <div>
+        <label htmlFor="location-landmarks" className="text-sm font-medium mb-1 block">
+          Landmarks
+        </label>
+        <Input
+          id="location-landmarks"
+          value={properties.landmarks ?? ""}
+          onChange={(event) => update({ landmarks: event.target.value || undefined })}
+          placeholder="e.g. Three-story building with red roof, near main gate"
+        />
+      </div>
+
+      <div>
+        <label htmlFor="location-tags" className="text-sm font-medium mb-1 block">
+          Tags
+        </label>
+        {/* Comma-separated; parsed on blur so a trailing comma can be typed */}
+        <Input
+          key={properties.tags.join(",")}
+          id="location-tags"
+          defaultValue={properties.tags.join(", ")}
+          onBlur={(event) =>
+            update({
+              tags: event.target.value
+                .split(",")
+                .map((tag) => tag.trim())
+                .filter(Boolean),
+            })
+          }
+          placeholder="food, snack, lunch"
+        />
+      </div>
+
+      <Button
+        variant="outline"
+        size="sm"
+        onClick={() => {
+          // A deleted location has nothing left to rename
+          commitOnClose.current = () => {}
+          onDelete()
+        }}
+        className="text-destructive"
+      >
+        <Trash2 className="w-4 h-4" />
+        Delete location
+      </Button>
+    </div>
+  )
+}
@@ -0,0 +1,80 @@
+"use client"
+
+import { useMemo, useState } from "react"
+import { Input } from "@/components/ui/input"
+import type { Location, SubLocation } from "@/lib/campus-data"
+import { describeSubLocation, searchLocations } from "@/lib/search"
+import { Search } from "lucide-react"
+
+interface LocationSearchProps {
+  // The active campus's locations
+  locations: Location[]
+  // subLocation is set when the match was a room, department or office inside the location
+  onSelect: (location: Location, subLocation?: SubLocation) => void
+}
+
+const MAX_RESULTS = 6
+
+export default function LocationSearch({ locations, onSelect }: LocationSearchProps) {
+  const [query, setQuery] = useState("")
+
+  const results = useMemo(
+    () => (query.trim() ? searchLocations(query, locations).slice(0, MAX_RESULTS) : []),
+    [query, locations],
+  )
+
+  const select = (location: Location, subLocation?: SubLocation) => {
+    onSelect(location, subLocation)
+    setQuery("")
+  }
+
+  return (
+    <div className="relative">
+      <label htmlFor="location-search" className="text-sm font-medium mb-2 block">
+        <Search className="inline-block w-4 h-4 mr-1" />
+        Search
+      </label>
+      <Input
+        id="location-search"
+        value={query}
+        onChange={(e) => setQuery(e.target.value)}
+        onKeyDown={(e) => {
+          if (e.key === "Enter" && results.length > 0) {
+            e.preventDefault()
+            select(results[0].location, results[0].subLocation)
+          }
+          if (e.key === "Escape") setQuery("")
+        }}
+        placeholder="Search places or rooms, e.g. 'librery', 'washroom', 'B-204'..."
+        aria-label="Search campus locations"
+        aria-controls="location-search-results"
+        autoComplete="off"
+      />
+      {query.trim() && (
+        <ul
+          id="location-search-results"
+          className="absolute z-[1000] mt-1 w-full rounded-md border bg-popover text-popover-foreground shadow-md"
+          role="listbox"
+        >
+          {results.length === 0 && <li className="px-3 py-2 text-sm text-muted-foreground">No matching places</li>}
+          {results.map(({ location, subLocation }) => (
+            <li key={location.name} role="option" aria-selected={false}>
+              <button
+                type="button"
+                onClick={() => select(location, subLocation)}
+                className="w-full text-left px-3 py-2 text-sm hover:bg-accent hover:text-accent-foreground"
+              >
+                <span className="font-medium">
+                  {location.icon} {subLocation ? subLocation.name : location.name}
+                </span>
+                <span className="block text-xs text-muted-foreground truncate">
+                  {subLocation ? describeSubLocation(location, subLocation) : location.description}
+                </span>
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,113 @@
+"use client"
+
+import { useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import type { Location } from "@/lib/campus-data"
+import { ArrowDown, ArrowUp, Plus, Shuffle, X } from "lucide-react"
+
+interface TripStopsProps {
+  // The active campus's locations, to pick stops from
+  locations: Location[]
+  stops: string[]
+  onStopsChange: (stops: string[]) => void
+  optimiseOrder: boolean
+  onOptimiseOrderChange: (optimise: boolean) => void
+}
+
+export default function TripStops({
+  locations,
+  stops,
+  onStopsChange,
+  optimiseOrder,
+  onOptimiseOrderChange,
+}: TripStopsProps) {
+  const [nextStop, setNextStop] = useState<string>("")
+
+  const addStop = () => {
+    if (!nextStop) return
+    onStopsChange([...stops, nextStop])
+    setNextStop("")
+  }
+
+  const removeStop = (index: number) => {
+    onStopsChange(stops.filter((_, i) => i !== index))
+  }
+
+  const moveStop = (index: number, offset: -1 | 1) => {
+    const target = index + offset
+    if (target < 0 || target >= stops.length) return
+
+    const reordered = [...stops]
+    ;[reordered[index], reordered[target]] = [reordered[target], reordered[index]]
+    onStopsChange(reordered)
+  }
+
+  const iconFor = (name: string) => locations.find((location) => location.name === name)?.icon
+
+  return (
+    <div className="space-y-3">
+      {stops.length > 0 && (
+        <ol className="space-y-2" aria-label="Trip stops">
+          {stops.map((stop, index) => (
+            <li key={`${stop}-${index}`} className="flex items-center gap-2 p-2 rounded-md border text-sm">
+              <span className="font-semibold text-muted-foreground min-w-[20px]">{index + 1}.</span>
+              <span className="flex-1">
+                {iconFor(stop)} {stop}
+              </span>
+              <Button
+                variant="ghost"
+                size="icon-sm"
+                onClick={() => moveStop(index, -1)}
+                disabled={index === 0}
+                aria-label={`Move ${stop} earlier`}
+              >
+                <ArrowUp className="w-4 h-4" />
+              </Button>
+              <Button
+                variant="ghost"
+                size="icon-sm"
+                onClick={() => moveStop(index, 1)}
+                disabled={index === stops.length - 1}
+                aria-label={`Move ${stop} later`}
+              >
+                <ArrowDown className="w-4 h-4" />
+              </Button>
+              <Button variant="ghost" size="icon-sm" onClick={() => removeStop(index)} aria-label={`Remove ${stop}`}>
+                <X className="w-4 h-4" />
+              </Button>
+            </li>
+          ))}
+        </ol>
+      )}
+
+      <div className="flex flex-col sm:flex-row gap-2">
+        <Select value={nextStop} onValueChange={setNextStop}>
+          <SelectTrigger className="flex-1" aria-label="Select a stop to add">
+            <SelectValue placeholder="Add a stop..." />
+          </SelectTrigger>
+          <SelectContent>
+            {locations.map((location) => (
+              <SelectItem key={location.name} value={location.name}>
+                {location.icon} {location.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Button variant="outline" onClick={addStop} disabled={!nextStop}>
+          <Plus className="w-4 h-4" />
+          Add Stop
+        </Button>
+        <Button
+          variant={optimiseOrder ? "default" : "outline"}
+          onClick={() => onOptimiseOrderChange(!optimiseOrder)}
+          aria-pressed={optimiseOrder}
+          title="Keep the first stop as the start and visit the rest in the shortest order"
+        >
+          <Shuffle className="w-4 h-4" />
+          Optimise Order
+        </Button>
+      </div>
+    </div>
+  )
+}
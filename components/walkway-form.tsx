@@ -0,0 +1,123 @@
+"use client"
+
+import { Button } from "@/components/ui/button"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import type { CampusDataset } from "@/lib/campus-schema"
+import type { CatSightings, EdgeAttributes } from "@/lib/path-network"
+import { Trash2 } from "lucide-react"
+
+export type WalkwayEdgeData = CampusDataset["walkways"]["edges"][number]
+
+interface WalkwayFormProps {
+  edge: WalkwayEdgeData
+  // Display names of the two ends
+  fromName: string
+  toName: string
+  onChange: (edge: WalkwayEdgeData) => void
+  onDelete: () => void
+}
+
+type FlagAttribute = Exclude<keyof EdgeAttributes, "catSightings" | "accessible">
+
+const flags: { attribute: FlagAttribute; label: string }[] = [
+  { attribute: "paved", label: "Paved" },
+  { attribute: "wellLit", label: "Well lit" },
+  { attribute: "landmarkRich", label: "Landmarks along the way" },
+  { attribute: "shortcut", label: "Shortcut" },
+  { attribute: "steps", label: "Steps or kerb" },
+  { attribute: "ramp", label: "Ramp" },
+  { attribute: "lift", label: "Lift" },
+]
+
+// Same fallbacks the walkway graph uses for attributes a dataset leaves out
+const flagDefaults: Record<FlagAttribute, boolean> = {
+  paved: true,
+  wellLit: false,
+  landmarkRich: false,
+  shortcut: false,
+  steps: false,
+  ramp: false,
+  lift: false,
+}
+
+export default function WalkwayForm({ edge, fromName, toName, onChange, onDelete }: WalkwayFormProps) {
+  const attributes = edge.attributes ?? {}
+
+  // Attributes back at their default are dropped, keeping the dataset as terse as the hand-written one
+  const setAttribute = <K extends keyof EdgeAttributes>(attribute: K, value: EdgeAttributes[K] | undefined) => {
+    const next = { ...attributes, [attribute]: value }
+    if (value === undefined) delete next[attribute]
+    onChange({ ...edge, attributes: Object.keys(next).length > 0 ? next : undefined })
+  }
+
+  return (
+    <div className="space-y-3">
+      <p className="text-sm font-medium">
+        {fromName} ↔ {toName}
+      </p>
+
+      <div className="grid grid-cols-2 gap-2">
+        {flags.map(({ attribute, label }) => (
+          <label key={attribute} className="flex items-center gap-2 text-sm">
+            <input
+              type="checkbox"
+              checked={attributes[attribute] ?? flagDefaults[attribute]}
+              onChange={(event) =>
+                setAttribute(
+                  attribute,
+                  event.target.checked === flagDefaults[attribute] ? undefined : event.target.checked,
+                )
+              }
+            />
+            {label}
+          </label>
+        ))}
+      </div>
+
+      <div>
+        <label htmlFor="walkway-cats" className="text-sm font-medium mb-1 block">
+          Cat sightings
+        </label>
+        <Select
+          value={attributes.catSightings ?? "none"}
+          onValueChange={(value) =>
+            setAttribute("catSightings", value === "none" ? undefined : (value as CatSightings))
+          }
+        >
+          <SelectTrigger id="walkway-cats">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="none">None</SelectItem>
+            <SelectItem value="occasional">Occasional</SelectItem>
+            <SelectItem value="frequent">Frequent</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div>
+        <label htmlFor="walkway-accessible" className="text-sm font-medium mb-1 block">
+          Step-free
+        </label>
+        <Select
+          value={attributes.accessible === undefined ? "auto" : attributes.accessible ? "yes" : "no"}
+          onValueChange={(value) => setAttribute("accessible", value === "auto" ? undefined : value === "yes")}
+        >
+          <SelectTrigger id="walkway-accessible">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="auto">Automatic (paved, no steps)</SelectItem>
+            <SelectItem value="yes">Always</SelectItem>
+            <SelectItem value="no">Never</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+
+      <Button variant="outline" size="sm" onClick={onDelete} className="text-destructive">
+        <Trash2 className="w-4 h-4" />
+        Delete walkway
+      </Button>
+    </div>
+  )
+}
@@ -0,0 +1,32 @@
+"use client"
+
+import { useEffect, useState } from "react"
+
+// Load Leaflet from the CDN; returns the global `L` once the script has run, null until then
+export function useLeaflet(): any {
+  const [L, setL] = useState<any>(null)
+
+  useEffect(() => {
+    const link = document.createElement("link")
+    link.rel = "stylesheet"
+    link.href = "https://unpkg.com/leaflet@1.9.4/dist/leaflet.css"
+    link.integrity = "sha256-p4NxAoJBhIIN+hmNHrzRCf9tD/miZyoHS5obTRR9BMY="
+    link.crossOrigin = ""
+    document.head.appendChild(link)
+
+    const script = document.createElement("script")
+    script.src = "https://unpkg.com/leaflet@1.9.4/dist/leaflet.js"
+    script.integrity = "sha256-20nQCchB9co0qIjJZRGuk2/Z9VM+kNiyxNV1lvTlZBo="
+    script.crossOrigin = ""
+    script.async = true
+    script.onload = () => setL((window as any).L)
+    document.head.appendChild(script)
+
+    return () => {
+      document.head.removeChild(link)
+      document.head.removeChild(script)
+    }
+  }, [])
+
+  return L
+}
@@ -0,0 +1,439 @@
+// Campus dataset schema - validates the JSON/GeoJSON campus file and turns it into CampusData
+
+import { z } from "zod"
+import type { CampusData, Location } from "./campus-data"
+import { isInsidePolygon } from "./geofence"
+import { locationNodeId, type PathNode } from "./path-network"
+
+// Bump when the file format changes in a way older files can't be read as
+export const CAMPUS_DATASET_VERSION = 3
+
+// Thrown when a dataset fails validation; `issues` has one readable line per problem
+export class CampusDataError extends Error {
+  constructor(public issues: string[]) {
+    super(`Invalid campus dataset:\n${issues.map((issue) => `  - ${issue}`).join("\n")}`)
+    this.name = "CampusDataError"
+  }
+}
+
+const latitude = z
+  .number()
+  .min(-90, "Latitude must be between -90 and 90")
+  .max(90, "Latitude must be between -90 and 90")
+const longitude = z
+  .number()
+  .min(-180, "Longitude must be between -180 and 180")
+  .max(180, "Longitude must be between -180 and 180")
+const hour = z.number().int().min(0).max(23)
+const clock = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$|^24:00$/, 'Times must look like "07:30" (24-hour clock)')
+
+const personaSchema = z.enum(["faculty", "new-student", "cat-lover", "cat-fearful"])
+
+const openingPeriodSchema = z.object({ open: clock, close: clock })
+
+const openingHoursSchema = z.object({
+  weekly: z.object({
+    mon: z.array(openingPeriodSchema).optional(),
+    tue: z.array(openingPeriodSchema).optional(),
+    wed: z.array(openingPeriodSchema).optional(),
+    thu: z.array(openingPeriodSchema).optional(),
+    fri: z.array(openingPeriodSchema).optional(),
+    sat: z.array(openingPeriodSchema).optional(),
+    sun: z.array(openingPeriodSchema).optional(),
+  }),
+  exceptions: z
+    .array(
+      z.object({
+        date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Dates must look like "2026-11-08"'),
+        periods: z.array(openingPeriodSchema),
+        note: z.string().optional(),
+      }),
+    )
+    .optional(),
+})
+
+const indoorSchema = z.object({
+  floors: z.array(
+    z.object({
+      level: z.number().int(),
+      name: z.string().min(1),
+      rooms: z.array(
+        z.object({
+          id: z.string().min(1),
+          name: z.string().min(1),
+          kind: z.enum(["lab", "reading-hall", "classroom", "restroom", "office", "other"]),
+          lat: latitude,
+          lng: longitude,
+        }),
+      ),
+    }),
+  ),
+  connectors: z.array(
+    z.object({
+      id: z.string().min(1),
+      kind: z.enum(["stairs", "lift"]),
+      lat: latitude,
+      lng: longitude,
+      levels: z.array(z.number().int()).min(2, "A connector must join at least two floors"),
+    }),
+  ),
+})
+
+const locationPropertiesSchema = z.object({
+  name: z.string().trim().min(1, "Every location needs a name"),
+  description: z.string(),
+  landmarks: z.string().optional(),
+  type: z.enum(["warning", "romantic", "food", "study", "sports", "default", "medical", "hostel", "inclusive"]),
+  icon: z.string().min(1),
+  tags: z.array(z.string()),
+  hazard: z
+    .object({
+      radius: z.number().positive(),
+      activeFrom: hour,
+      activeUntil: hour,
+      warning: z.string(),
+    })
+    .optional(),
+  accessibleEntrance: z.string().optional(),
+  indoor: indoorSchema.optional(),
+  subLocations: z
+    .array(
+      z.object({
+        name: z.string().min(1),
+        kind: z.enum(["room", "department", "office"]),
+        code: z.string().optional(),
+        floor: z.number().int().optional(),
+        room: z.string().optional(),
+        tags: z.array(z.string()).optional(),
+      }),
+    )
+    .optional(),
+  openingHours: openingHoursSchema.optional(),
+})
+
+// Locations are GeoJSON points; GeoJSON puts longitude first
+const locationFeatureSchema = z.object({
+  type: z.literal("Feature"),
+  geometry: z.object({
+    type: z.literal("Point"),
+    coordinates: z.tuple([longitude, latitude]),
+  }),
+  properties: locationPropertiesSchema,
+})
+
+// A gate stands at a location, which is where routes in from it start
+const gateSchema = z.object({
+  name: z.string().trim().min(1, "Every gate needs a name"),
+  location: z.string(),
+  modes: z.array(z.enum(["pedestrian", "vehicle"])).min(1, "A gate must let pedestrians or vehicles through"),
+  users: z.array(z.enum(["students", "visitors"])).min(1, "A gate must let students or visitors through"),
+  openingHours: openingHoursSchema.optional(),
+})
+
+// The campus outline as a GeoJSON polygon with a single ring, and the gates through it
+const boundarySchema = z.object({
+  type: z.literal("Feature"),
+  geometry: z.object({
+    type: z.literal("Polygon"),
+    coordinates: z
+      .array(z.array(z.tuple([longitude, latitude])).min(4, "A boundary ring needs at least four positions"))
+      .length(1, "The campus boundary must be a single ring without holes"),
+  }),
+  properties: z.object({
+    gates: z.array(gateSchema).min(1, "A campus boundary needs at least one gate"),
+  }),
+})
+
+// Curated route paths are [lat, lng] pairs, like everything else outside GeoJSON
+const routeSchema = z.object({
+  start: z.string(),
+  end: z.string(),
+  persona: personaSchema,
+  path: z.array(z.tuple([latitude, longitude])).min(2, "A route needs at least two points"),
+  directions: z.array(z.string()),
+})
+
+// Junctions are GeoJSON points too
+const junctionFeatureSchema = z.object({
+  type: z.literal("Feature"),
+  geometry: z.object({
+    type: z.literal("Point"),
+    coordinates: z.tuple([longitude, latitude]),
+  }),
+  properties: z.object({
+    id: z.string().min(1),
+    name: z.string().min(1),
+  }),
+})
+
+// Edge ends are junction ids, or "location:<name>" for a location's entrance
+const walkwayEdgeSchema = z.object({
+  from: z.string().min(1),
+  to: z.string().min(1),
+  attributes: z
+    .object({
+      wellLit: z.boolean(),
+      landmarkRich: z.boolean(),
+      catSightings: z.enum(["none", "occasional", "frequent"]),
+      paved: z.boolean(),
+      shortcut: z.boolean(),
+      steps: z.boolean(),
+      ramp: z.boolean(),
+      lift: z.boolean(),
+      accessible: z.boolean(),
+    })
+    .partial()
+    .optional(),
+  weight: z.number().positive().optional(),
+})
+
+export const campusDatasetSchema = z.object({
+  version: z.literal(CAMPUS_DATASET_VERSION, {
+    errorMap: () => ({ message: `Only version ${CAMPUS_DATASET_VERSION} campus datasets are supported` }),
+  }),
+  locations: z.object({
+    type: z.literal("FeatureCollection"),
+    features: z.array(locationFeatureSchema),
+  }),
+  boundary: boundarySchema.optional(),
+  routes: z.array(routeSchema),
+  walkways: z.object({
+    junctions: z.object({
+      type: z.literal("FeatureCollection"),
+      features: z.array(junctionFeatureSchema),
+    }),
+    edges: z.array(walkwayEdgeSchema),
+  }),
+})
+
+// Cross-references - duplicate names and ids, and names pointing at nothing - are checked in a pass of their
+// own. A refinement on the schema above would only run once everything else is valid, so one bad coordinate
+// would hide them; this pass reads whatever parts of the file it can and skips the rest.
+const looseText = z.string().optional().catch(undefined)
+const loosePoint = z.tuple([longitude, latitude]).optional().catch(undefined)
+
+function looseList<T extends z.ZodTypeAny>(item: T) {
+  return z.array(item.optional().catch(undefined)).optional().catch(undefined)
+}
+
+function looseObject<T extends z.ZodRawShape>(shape: T) {
+  return z.object(shape).optional().catch(undefined)
+}
+
+const campusReferencesSchema = z
+  .object({
+    locations: looseObject({
+      features: looseList(
+        looseObject({
+          geometry: looseObject({ coordinates: loosePoint }),
+          properties: looseObject({
+            name: looseText,
+            indoor: looseObject({
+              floors: looseList(looseObject({ rooms: looseList(looseObject({ id: looseText })) })),
+            }),
+            subLocations: looseList(looseObject({ room: looseText })),
+          }),
+        }),
+      ),
+    }),
+    boundary: looseObject({
+      geometry: looseObject({ coordinates: looseList(looseList(loosePoint)) }),
+      properties: looseObject({ gates: looseList(looseObject({ name: looseText, location: looseText })) }),
+    }),
+    routes: looseList(looseObject({ start: looseText, end: looseText })),
+    walkways: looseObject({
+      junctions: looseObject({ features: looseList(looseObject({ properties: looseObject({ id: looseText }) })) }),
+      edges: looseList(looseObject({ from: looseText, to: looseText })),
+    }),
+  })
+  .catch({})
+  .superRefine((dataset, context) => {
+    const names = new Set<string>()
+    const features = dataset.locations?.features ?? []
+    features.forEach((feature, index) => {
+      const properties = feature?.properties
+      if (properties?.name === undefined) return
+      if (names.has(properties.name)) {
+        context.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ["locations", "features", index, "properties", "name"],
+          message: `Duplicate location name "${properties.name}"`,
+        })
+      }
+      names.add(properties.name)
+
+      // Sub-locations may only point at rooms the building's floor plan actually has
+      const rooms = new Set(properties.indoor?.floors?.flatMap((floor) => floor?.rooms?.map((room) => room?.id) ?? []))
+      properties.subLocations?.forEach((subLocation, subIndex) => {
+        if (subLocation?.room && !rooms.has(subLocation.room)) {
+          context.addIssue({
+            code: z.ZodIssueCode.custom,
+            path: ["locations", "features", index, "properties", "subLocations", subIndex, "room"],
+            message: `Room "${subLocation.room}" is not on the floor plan of ${properties.name}`,
+          })
+        }
+      })
+    })
+
+    const gateNames = new Set<string>()
+    dataset.boundary?.properties?.gates?.forEach((gate, index) => {
+      if (gate?.name === undefined) return
+      if (gateNames.has(gate.name)) {
+        context.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ["boundary", "properties", "gates", index, "name"],
+          message: `Duplicate gate name "${gate.name}"`,
+        })
+      }
+      gateNames.add(gate.name)
+      if (gate.location !== undefined && !names.has(gate.location)) {
+        context.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ["boundary", "properties", "gates", index, "location"],
+          message: `Gate "${gate.name}" stands at "${gate.location}", which is not a location in this dataset`,
+        })
+      }
+    })
+
+    // Only against a boundary ring that is itself readable
+    const ring = dataset.boundary?.geometry?.coordinates?.[0]
+    if (ring && ring.length >= 4 && ring.every((position) => position)) {
+      const polygon = ring.map((position): [number, number] => [position![1], position![0]])
+      features.forEach((feature, index) => {
+        const coordinates = feature?.geometry?.coordinates
+        const name = feature?.properties?.name
+        if (name === undefined || !coordinates) return
+        if (!isInsidePolygon({ lat: coordinates[1], lng: coordinates[0] }, polygon)) {
+          context.addIssue({
+            code: z.ZodIssueCode.custom,
+            path: ["locations", "features", index, "geometry", "coordinates"],
+            message: `${name} is outside the campus boundary`,
+          })
+        }
+      })
+    }
+
+    dataset.routes?.forEach((route, index) => {
+      for (const side of ["start", "end"] as const) {
+        const name = route?.[side]
+        if (name !== undefined && !names.has(name)) {
+          context.addIssue({
+            code: z.ZodIssueCode.custom,
+            path: ["routes", index, side],
+            message: `Route ${side} "${name}" is not a location in this dataset`,
+          })
+        }
+      }
+    })
+
+    const nodeIds = new Set([...names].map(locationNodeId))
+    dataset.walkways?.junctions?.features?.forEach((junction, index) => {
+      const id = junction?.properties?.id
+      if (id === undefined) return
+      if (nodeIds.has(id)) {
+        context.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ["walkways", "junctions", "features", index, "properties", "id"],
+          message: `Duplicate junction id "${id}"`,
+        })
+      }
+      nodeIds.add(id)
+    })
+    dataset.walkways?.edges?.forEach((edge, index) => {
+      for (const side of ["from", "to"] as const) {
+        const id = edge?.[side]
+        if (id !== undefined && !nodeIds.has(id)) {
+          context.addIssue({
+            code: z.ZodIssueCode.custom,
+            path: ["walkways", "edges", index, side],
+            message: `Walkway ${side} "${id}" is neither a junction nor "location:<name>" of a location`,
+          })
+        }
+      }
+    })
+  })
+
+export type CampusDataset = z.infer<typeof campusDatasetSchema>
+
+// "geometry.coordinates[1]"
+function formatPath(path: (string | number)[]): string {
+  return path.reduce<string>(
+    (text, part) => (typeof part === "number" ? `${text}[${part}]` : text ? `${text}.${part}` : part),
+    "",
+  )
+}
+
+// Readable location of an issue, naming the location it is in where there is one,
+// e.g. `Location "Library" (features[3]) › properties.type`
+function issuePath(path: (string | number)[], raw: unknown): string {
+  if (path[0] === "locations" && path[1] === "features" && typeof path[2] === "number") {
+    const name = (raw as CampusDataset)?.locations?.features?.[path[2]]?.properties?.name
+    const label = typeof name === "string" ? `Location "${name}" (features[${path[2]}])` : `features[${path[2]}]`
+    return [label, formatPath(path.slice(3))].filter(Boolean).join(" › ")
+  }
+  return formatPath(path) || "dataset"
+}
+
+// Longest line an array of plain values is kept on, the same width prettier uses for the code
+const PRINT_WIDTH = 120
+
+// JSON laid out the way the dataset files are kept: objects one key per line, arrays of plain values on one line
+// when they fit. Saving an unchanged dataset rewrites the file byte for byte, so saves make reviewable diffs.
+function formatJson(value: unknown, indent = "", lineStart = 0): string {
+  const inner = `${indent}  `
+  if (Array.isArray(value)) {
+    if (value.length === 0) return "[]"
+    if (value.every((item) => item === null || typeof item !== "object")) {
+      const line = `[${value.map((item) => JSON.stringify(item)).join(", ")}]`
+      if (lineStart + line.length + 1 <= PRINT_WIDTH) return line
+    }
+    return `[\n${value.map((item) => inner + formatJson(item, inner, inner.length)).join(",\n")}\n${indent}]`
+  }
+  if (value !== null && typeof value === "object") {
+    const entries = Object.entries(value).filter(([, item]) => item !== undefined)
+    if (entries.length === 0) return "{}"
+    const lines = entries.map(([key, item]) => {
+      const prefix = `${inner}${JSON.stringify(key)}: `
+      return prefix + formatJson(item, inner, prefix.length)
+    })
+    return `{\n${lines.join(",\n")}\n${indent}}`
+  }
+  return JSON.stringify(value)
+}
+
+// A dataset as file contents, laid out like the files in data/campuses
+export function formatCampusDataset(raw: unknown): string {
+  return `${formatJson(raw)}\n`
+}
+
+// Validate a raw dataset (parsed JSON) and convert it to CampusData, throwing CampusDataError on any problem
+export function parseCampusDataset(raw: unknown): CampusData {
+  const parsed = campusDatasetSchema.safeParse(raw)
+  const references = campusReferencesSchema.safeParse(raw)
+  const issues = [...(parsed.error?.issues ?? []), ...(references.error?.issues ?? [])]
+  if (!parsed.success || issues.length > 0) {
+    throw new CampusDataError(issues.map((issue) => `${issuePath(issue.path, raw)}: ${issue.message}`))
+  }
+
+  const locations: Location[] = parsed.data.locations.features.map(({ geometry, properties }) => ({
+    ...properties,
+    lat: geometry.coordinates[1],
+    lng: geometry.coordinates[0],
+  }))
+  const junctions: PathNode[] = parsed.data.walkways.junctions.features.map(({ geometry, properties }) => ({
+    ...properties,
+    lat: geometry.coordinates[1],
+    lng: geometry.coordinates[0],
+    type: "intersection",
+  }))
+  const { boundary } = parsed.data
+  return {
+    locations,
+    routes: parsed.data.routes,
+    walkways: { junctions, edges: parsed.data.walkways.edges },
+    boundary: boundary && {
+      polygon: boundary.geometry.coordinates[0].map(([lng, lat]) => [lat, lng]),
+      gates: boundary.properties.gates,
+    },
+  }
+}
@@ -0,0 +1,59 @@
+// Campus registry - every campus the navigator serves, with its dataset, map view and branding
+
+import adypuLohegaonDataset from "../data/campuses/adypu-lohegaon.json"
+import type { CampusData } from "./campus-data"
+import { parseCampusDataset } from "./campus-schema"
+
+export interface CampusBranding {
+  // Shown under the app title, e.g. "Explore Ajeenkya DY Patil Lohegaon Campus - ..."
+  tagline: string
+  logo: string // emoji
+  // CSS colour for the campus name and other campus-specific accents
+  accent: string
+}
+
+export interface Campus {
+  id: string // URL slug, e.g. /adypu-lohegaon
+  name: string
+  // IANA time zone the campus's opening hours are kept in, e.g. "Asia/Kolkata"
+  timeZone: string
+  center: [number, number] // [lat, lng] the map opens on
+  zoom: number
+  minZoom: number
+  maxZoom: number
+  // South-west and north-east corners the map can't be panned beyond, as [lat, lng]
+  bounds: [[number, number], [number, number]]
+  branding: CampusBranding
+  data: CampusData
+}
+
+// Each campus's locations, routes and walkways live in data/campuses/<id>.json so they can be edited without
+// touching code; a bad edit fails at startup with every problem listed
+export const campuses: Campus[] = [
+  {
+    id: "adypu-lohegaon",
+    name: "Ajeenkya DY Patil Lohegaon Campus",
+    timeZone: "Asia/Kolkata",
+    center: [18.621130576268346, 73.91139588382592],
+    zoom: 17,
+    minZoom: 15,
+    maxZoom: 19,
+    bounds: [
+      [18.612, 73.902],
+      [18.63, 73.921],
+    ],
+    branding: {
+      tagline: "Explore Ajeenkya DY Patil Lohegaon Campus - Discover quirky spots, navigate with ease",
+      logo: "🎓",
+      accent: "#b91c1c",
+    },
+    data: parseCampusDataset(adypuLohegaonDataset),
+  },
+]
+
+// Where / sends visitors
+export const DEFAULT_CAMPUS_ID = "adypu-lohegaon"
+
+export function getCampus(id: string): Campus | undefined {
+  return campuses.find((campus) => campus.id === id)
+}
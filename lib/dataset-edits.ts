@@ -0,0 +1,176 @@
+// Dataset edits - the admin editor's changes to a raw campus dataset, keeping walkways, routes and gates pointing
+// at the right places. Every edit returns a new dataset and leaves the one passed in untouched.
+
+import type { CampusDataset } from "./campus-schema"
+import { locationNodeId } from "./path-network"
+
+type LocationFeature = CampusDataset["locations"]["features"][number]
+type JunctionFeature = CampusDataset["walkways"]["junctions"]["features"][number]
+type Gates = NonNullable<CampusDataset["boundary"]>["properties"]["gates"]
+
+// "New location", then "New location 2", "New location 3", ...
+function unusedName(base: string, taken: string[], separator = " "): string {
+  let name = base
+  for (let n = 2; taken.includes(name); n++) name = `${base}${separator}${n}`
+  return name
+}
+
+function junctionIds(dataset: CampusDataset): string[] {
+  return dataset.walkways.junctions.features.map((feature) => feature.properties.id)
+}
+
+function withGates(dataset: CampusDataset, update: (gates: Gates) => Gates): CampusDataset {
+  const { boundary } = dataset
+  if (!boundary) return dataset
+  return {
+    ...dataset,
+    boundary: { ...boundary, properties: { ...boundary.properties, gates: update(boundary.properties.gates) } },
+  }
+}
+
+function withEdges(dataset: CampusDataset, edges: CampusDataset["walkways"]["edges"]): CampusDataset {
+  return { ...dataset, walkways: { ...dataset.walkways, edges } }
+}
+
+// [lat, lng] of a walkway graph node: a junction id or a location's node id
+export function nodePosition(dataset: CampusDataset, id: string): [number, number] | null {
+  const feature =
+    dataset.walkways.junctions.features.find((junction) => junction.properties.id === id) ??
+    dataset.locations.features.find((location) => locationNodeId(location.properties.name) === id)
+  return feature ? [feature.geometry.coordinates[1], feature.geometry.coordinates[0]] : null
+}
+
+// Display name of a walkway graph node
+export function nodeName(dataset: CampusDataset, id: string): string {
+  const junction = dataset.walkways.junctions.features.find((feature) => feature.properties.id === id)
+  return junction?.properties.name ?? id.replace(/^location:/, "")
+}
+
+export function addLocation(dataset: CampusDataset, lat: number, lng: number): CampusDataset {
+  const names = dataset.locations.features.map((feature) => feature.properties.name)
+  const feature: LocationFeature = {
+    type: "Feature",
+    geometry: { type: "Point", coordinates: [lng, lat] },
+    properties: { name: unusedName("New location", names), description: "", type: "default", icon: "📍", tags: [] },
+  }
+  return { ...dataset, locations: { ...dataset.locations, features: [...dataset.locations.features, feature] } }
+}
+
+export function updateLocation(
+  dataset: CampusDataset,
+  index: number,
+  properties: LocationFeature["properties"],
+): CampusDataset {
+  const features = dataset.locations.features.map((feature, i) => (i === index ? { ...feature, properties } : feature))
+  return { ...dataset, locations: { ...dataset.locations, features } }
+}
+
+export function moveLocation(dataset: CampusDataset, index: number, lat: number, lng: number): CampusDataset {
+  const features = dataset.locations.features.map((feature, i) =>
+    i === index
+      ? { ...feature, geometry: { ...feature.geometry, coordinates: [lng, lat] as [number, number] } }
+      : feature,
+  )
+  return { ...dataset, locations: { ...dataset.locations, features } }
+}
+
+// Rename a location along with the walkways to its entrance, the curated routes that start or end there and
+// any gate standing at it
+export function renameLocation(dataset: CampusDataset, index: number, name: string): CampusDataset {
+  const previous = dataset.locations.features[index].properties.name
+  const renamed = updateLocation(dataset, index, { ...dataset.locations.features[index].properties, name })
+  const node = (id: string) => (id === locationNodeId(previous) ? locationNodeId(name) : id)
+  const place = (value: string) => (value === previous ? name : value)
+
+  return withGates(
+    {
+      ...withEdges(
+        renamed,
+        renamed.walkways.edges.map((edge) => ({ ...edge, from: node(edge.from), to: node(edge.to) })),
+      ),
+      routes: renamed.routes.map((route) => ({ ...route, start: place(route.start), end: place(route.end) })),
+    },
+    (gates) => gates.map((gate) => ({ ...gate, location: place(gate.location) })),
+  )
+}
+
+// Remove a location with its entrance walkways, any curated route to or from it and any gate standing at it
+export function removeLocation(dataset: CampusDataset, index: number): CampusDataset {
+  const { name } = dataset.locations.features[index].properties
+  const node = locationNodeId(name)
+  const features = dataset.locations.features.filter((_, i) => i !== index)
+
+  return withGates(
+    {
+      ...withEdges(
+        dataset,
+        dataset.walkways.edges.filter((edge) => edge.from !== node && edge.to !== node),
+      ),
+      locations: { ...dataset.locations, features },
+      routes: dataset.routes.filter((route) => route.start !== name && route.end !== name),
+    },
+    (gates) => gates.filter((gate) => gate.location !== name),
+  )
+}
+
+export function addJunction(dataset: CampusDataset, lat: number, lng: number): CampusDataset {
+  const feature: JunctionFeature = {
+    type: "Feature",
+    geometry: { type: "Point", coordinates: [lng, lat] },
+    properties: { id: unusedName("junction", junctionIds(dataset), "-"), name: "New junction" },
+  }
+  const junctions = { ...dataset.walkways.junctions, features: [...dataset.walkways.junctions.features, feature] }
+  return { ...dataset, walkways: { ...dataset.walkways, junctions } }
+}
+
+export function updateJunction(
+  dataset: CampusDataset,
+  index: number,
+  changes: { name?: string; lat?: number; lng?: number },
+): CampusDataset {
+  const features = dataset.walkways.junctions.features.map((feature, i) => {
+    if (i !== index) return feature
+    const [lng, lat] = feature.geometry.coordinates
+    return {
+      ...feature,
+      geometry: { ...feature.geometry, coordinates: [changes.lng ?? lng, changes.lat ?? lat] as [number, number] },
+      properties: { ...feature.properties, name: changes.name ?? feature.properties.name },
+    }
+  })
+  return { ...dataset, walkways: { ...dataset.walkways, junctions: { ...dataset.walkways.junctions, features } } }
+}
+
+// Remove a junction and every walkway meeting at it
+export function removeJunction(dataset: CampusDataset, index: number): CampusDataset {
+  const { id } = dataset.walkways.junctions.features[index].properties
+  const features = dataset.walkways.junctions.features.filter((_, i) => i !== index)
+  const edges = dataset.walkways.edges.filter((edge) => edge.from !== id && edge.to !== id)
+  return { ...dataset, walkways: { junctions: { ...dataset.walkways.junctions, features }, edges } }
+}
+
+// Join two nodes with a plain walkway; joining a node to itself, or two nodes already joined, changes nothing
+export function addWalkway(dataset: CampusDataset, from: string, to: string): CampusDataset {
+  const joined = dataset.walkways.edges.some(
+    (edge) => (edge.from === from && edge.to === to) || (edge.from === to && edge.to === from),
+  )
+  if (from === to || joined) return dataset
+  return withEdges(dataset, [...dataset.walkways.edges, { from, to }])
+}
+
+export function updateWalkway(
+  dataset: CampusDataset,
+  index: number,
+  edge: CampusDataset["walkways"]["edges"][number],
+): CampusDataset {
+  return withEdges(
+    dataset,
+    dataset.walkways.edges.map((candidate, i) => (i === index ? edge : candidate)),
+  )
+}
+
+export function removeWalkway(dataset: CampusDataset, index: number): CampusDataset {
+  return withEdges(
+    dataset,
+    dataset.walkways.edges.filter((_, i) => i !== index),
+  )
+}
@@ -0,0 +1,25 @@
+// Dataset store - reads and writes campus dataset files on local disk, for the admin editor during development
+
+import { promises as fs } from "fs"
+import path from "path"
+import { formatCampusDataset, parseCampusDataset } from "./campus-schema"
+
+// Registry datasets live at data/campuses/<id>.json
+const DATASET_DIR = path.join(process.cwd(), "data", "campuses")
+
+function datasetPath(campusId: string): string {
+  return path.join(DATASET_DIR, `${campusId}.json`)
+}
+
+// The raw file as written, before validation
+export async function readCampusDataset(campusId: string): Promise<unknown> {
+  return JSON.parse(await fs.readFile(datasetPath(campusId), "utf8"))
+}
+
+// Validate a dataset and overwrite the campus's file with it; throws CampusDataError without writing anything
+// when the dataset is invalid
+export async function writeCampusDataset(campusId: string, raw: unknown): Promise<void> {
+  parseCampusDataset(raw)
+  await fs.writeFile(datasetPath(campusId), formatCampusDataset(raw), "utf8")
+  console.log("[v0] Saved campus dataset", campusId)
+}
@@ -0,0 +1,357 @@
+// Directions - turn a walked path into structured steps, and render those steps as text
+
+import type { CampusData, Location } from "./campus-data"
+import type { HazardZone } from "./hazards"
+import {
+  calculateBearing,
+  calculateDistance,
+  hazardWarning,
+  isSnapNode,
+  pathDistance,
+  segmentAttributes,
+  segmentHazards,
+  type PathNode,
+} from "./path-network"
+import { DEFAULT_WALKING_SPEED, formatDuration, pathDuration } from "./walking-time"
+
+export type Maneuver =
+  "depart" | "straight" | "slight-left" | "slight-right" | "left" | "right" | "sharp-left" | "sharp-right" | "u-turn"
+
+export type PersonaTip = "landmarks" | "cats" | "well-lit"
+
+interface StepBase {
+  // First path segment (path[i] → path[i + 1]) the step refers to; -1 for the starting point itself
+  segment: number
+  // Stretch of the path the step covers, as [lat, lng] pairs
+  geometry: [number, number][]
+}
+
+export type DirectionStep = StepBase &
+  (
+    | { type: "start"; place: string }
+    | { type: "gate"; gate: string } // coming onto campus through a gate, in place of the start
+    | {
+        type: "move"
+        maneuver: Maneuver
+        distance: number // meters
+        duration: number // seconds at the walker's pace
+        bearing: number // degrees, heading on setting off
+        landmark?: string // what to turn at
+        walkway?: "join" | "leave" // snapping leg between a map point and the walkways
+        destination?: string // set on the step that reaches the end of the route
+        floor?: string // inside a building: the floor whose corridor is walked
+        toward?: string // inside a building: the room, stairs or lift at the end of the corridor
+      }
+    | { type: "building"; action: "enter" | "leave"; place: string }
+    | { type: "floor"; via: "stairs" | "lift"; direction: "up" | "down"; floor: string; duration: number }
+    | { type: "note"; text: string } // hand-written wording, e.g. from a curated route
+    | { type: "tip"; tip: PersonaTip }
+    | { type: "warning"; zone: HazardZone }
+    | { type: "step-free-warning" } // a step-free walk was asked for, but none exists
+    | { type: "entrance"; place: string; entrance: string } // step-free way into a building
+    | { type: "arrive"; place: string }
+    | { type: "summary"; distance: number; duration: number }
+  )
+
+// Segments shorter than this are folded into the walk around them rather than getting their own turn (meters)
+const SHORT_SEGMENT = 15
+
+// Changes of heading smaller than this read as carrying straight on (degrees)
+const STRAIGHT_ANGLE = 20
+
+// A location this close to a turn is named as the landmark to turn at (meters)
+const LANDMARK_RADIUS = 40
+
+const tipText: Record<PersonaTip, string> = {
+  landmarks: "💡 Tip: Look for landmarks along the way",
+  cats: "😻 Keep an eye out for campus cats!",
+  "well-lit": "😰 Stay on well-lit paths",
+}
+
+const maneuverText: Record<Maneuver, string> = {
+  depart: "Head",
+  straight: "Continue straight",
+  "slight-left": "Keep slightly left",
+  "slight-right": "Keep slightly right",
+  left: "Turn left",
+  right: "Turn right",
+  "sharp-left": "Turn sharp left",
+  "sharp-right": "Turn sharp right",
+  "u-turn": "Make a U-turn",
+}
+
+// Convert bearing to compass direction
+function bearingToDirection(bearing: number): string {
+  const directions = ["north", "northeast", "east", "southeast", "south", "southwest", "west", "northwest"]
+  const index = Math.round(bearing / 45) % 8
+  return directions[index]
+}
+
+// Change of heading from one bearing to the next, from -180 (hard left) to 180 (hard right)
+function turnAngle(fromBearing: number, toBearing: number): number {
+  const angle = (((toBearing - fromBearing) % 360) + 360) % 360
+  return angle > 180 ? angle - 360 : angle
+}
+
+function turnManeuver(angle: number): Maneuver {
+  const side = angle < 0 ? "left" : "right"
+  const size = Math.abs(angle)
+  if (size < STRAIGHT_ANGLE) return "straight"
+  if (size < 60) return `slight-${side}`
+  if (size < 135) return side
+  if (size < 160) return `sharp-${side}`
+  return "u-turn"
+}
+
+// Describe a location by what it looks like, e.g. "Library (three-story building with red roof)"
+function landmarkName(location: Location): string {
+  const look = location.landmarks?.split(",")[0].trim()
+  return look ? `${location.name} (${look.charAt(0).toLowerCase()}${look.slice(1)})` : location.name
+}
+
+// Something recognisable to turn at: the closest location near the node, else the junction's own name
+function landmarkNear(campus: CampusData, node: PathNode, excluded: string[]): string | undefined {
+  let nearest: { location: Location; distance: number } | null = null
+  for (const location of campus.locations) {
+    if (location.hazard || excluded.includes(location.name)) continue
+    const distance = calculateDistance(node.lat, node.lng, location.lat, location.lng)
+    if (distance <= LANDMARK_RADIUS && (!nearest || distance < nearest.distance)) {
+      nearest = { location, distance }
+    }
+  }
+
+  if (nearest) return landmarkName(nearest.location)
+  return node.type === "intersection" ? node.name : undefined
+}
+
+// Walking outside, along a corridor inside a building, or between its floors
+type LegKind = "outdoor" | "indoor" | "floor"
+
+function segmentKind(from: PathNode, to: PathNode): LegKind {
+  if (from.indoor && to.indoor && from.indoor.level !== to.indoor.level) return "floor"
+  return from.indoor || to.indoor ? "indoor" : "outdoor"
+}
+
+// Name of a path node for the walker, with the floor for rooms, e.g. "Physics Lab 2, 2nd floor"
+function placeName(node: PathNode): string {
+  return node.indoor ? `${node.name}, ${node.indoor.floor}` : node.name
+}
+
+// A stretch of the path walked without turning: segments first..last, leaving on `bearing`
+interface DirectionLeg {
+  first: number
+  last: number
+  kind: LegKind
+  distance: number
+  entryBearing: number
+  bearing: number
+  snapping: boolean
+}
+
+// Group path segments into legs, folding short segments and straight continuations into the leg before them.
+// Snapping legs between a map point and the walkways always stand alone; inside a building, each corridor
+// walk and each ride between floors is a single leg.
+function directionLegs(path: PathNode[]): DirectionLeg[] {
+  const lastSegment = path.length - 2
+  const legs: DirectionLeg[] = []
+
+  for (let i = 0; i <= lastSegment; i++) {
+    const from = path[i]
+    const to = path[i + 1]
+    const distance = calculateDistance(from.lat, from.lng, to.lat, to.lng)
+    const bearing = calculateBearing(from.lat, from.lng, to.lat, to.lng)
+    const snapping = (i === 0 && isSnapNode(to)) || (i === lastSegment && isSnapNode(from))
+    const kind = segmentKind(from, to)
+
+    const previous = legs[legs.length - 1]
+    const short = distance < SHORT_SEGMENT
+    if (
+      previous &&
+      previous.kind === kind &&
+      (kind !== "outdoor" ||
+        (!previous.snapping && !snapping && (short || Math.abs(turnAngle(previous.bearing, bearing)) < STRAIGHT_ANGLE)))
+    ) {
+      previous.last = i
+      previous.distance += distance
+      if (!short) previous.bearing = bearing
+      continue
+    }
+
+    legs.push({ first: i, last: i, kind, distance, entryBearing: bearing, bearing, snapping })
+  }
+
+  return legs
+}
+
+// The [lat, lng] points of path segments first..last
+export function segmentGeometry(path: PathNode[], first: number, last: number = first): [number, number][] {
+  return path.slice(Math.max(0, first), last + 2).map((node) => [node.lat, node.lng])
+}
+
+// Build turn-by-turn steps for a path: relative turns at recognisable landmarks, warning about any of the
+// given hazard zones along the way, and floor by floor inside buildings. Walking times assume the given pace
+// in meters per second.
+export function generateDirectionSteps(
+  campus: CampusData,
+  path: PathNode[],
+  persona: string,
+  hazards: HazardZone[] = [],
+  speed: number = DEFAULT_WALKING_SPEED,
+): DirectionStep[] {
+  if (path.length < 2) return []
+
+  const warned = new Set<string>()
+  const lastSegment = path.length - 2
+  const start = path[0]
+  const destination = path[path.length - 1]
+  const endpoints = [start, destination].flatMap((node) =>
+    node.indoor ? [node.name, node.indoor.building] : [node.name],
+  )
+  const steps: DirectionStep[] = [
+    { type: "start", place: placeName(start), segment: -1, geometry: [[start.lat, start.lng]] },
+  ]
+
+  const legs = directionLegs(path)
+  legs.forEach((leg, index) => {
+    const from = path[leg.first]
+    const to = path[leg.last + 1]
+    const duration = pathDuration(campus, path.slice(leg.first, leg.last + 2), speed)
+    const geometry = segmentGeometry(path, leg.first, leg.last)
+    const previous = legs[index - 1]
+
+    if (from.type === "location" && (leg.kind === "indoor" || previous?.kind === "indoor")) {
+      const action = leg.kind === "indoor" ? "enter" : "leave"
+      steps.push({ type: "building", action, place: from.name, segment: leg.first, geometry: [[from.lat, from.lng]] })
+    }
+
+    if (leg.kind === "floor") {
+      steps.push({
+        type: "floor",
+        via: segmentAttributes(campus, from, path[leg.first + 1])?.lift ? "lift" : "stairs",
+        direction: to.indoor!.level > from.indoor!.level ? "up" : "down",
+        floor: to.indoor!.floor,
+        duration,
+        segment: leg.first,
+        geometry,
+      })
+    } else if (leg.kind === "indoor") {
+      // Floors stack on one spot, so stepping off the stairs into a room beside them can be no walk at all
+      if (leg.distance >= 1) {
+        steps.push({
+          type: "move",
+          maneuver: "straight",
+          distance: leg.distance,
+          duration,
+          bearing: leg.entryBearing,
+          destination: leg.last === lastSegment ? destination.name : undefined,
+          floor: (to.indoor ?? from.indoor)!.floor,
+          toward: to.type === "location" ? "the door" : to.name,
+          segment: leg.first,
+          geometry,
+        })
+      }
+    } else {
+      // Setting off again after coming out of a building, or from a map point right on the walkway, reads as a
+      // fresh start
+      const departing = index === 0 || previous.kind !== "outdoor" || (index === 1 && previous.distance < 1)
+      steps.push({
+        type: "move",
+        maneuver: departing ? "depart" : turnManeuver(turnAngle(previous.bearing, leg.entryBearing)),
+        distance: leg.distance,
+        duration,
+        bearing: leg.entryBearing,
+        landmark: departing || leg.snapping ? undefined : landmarkNear(campus, from, endpoints),
+        walkway: leg.snapping ? (index === 0 ? "join" : "leave") : undefined,
+        destination: leg.last === lastSegment ? destination.name : undefined,
+        segment: leg.first,
+        geometry,
+      })
+    }
+
+    for (let i = leg.first; i <= leg.last; i++) {
+      segmentHazards(path[i], path[i + 1], hazards).forEach((zone) => {
+        if (warned.has(zone.location.name)) return
+        warned.add(zone.location.name)
+        steps.push({ type: "warning", zone, segment: i, geometry: segmentGeometry(path, i) })
+      })
+    }
+
+    // Add persona-specific tips
+    const middle = Math.floor(path.length / 2)
+    if (persona === "new-student" && index === 0) {
+      steps.push({ type: "tip", tip: "landmarks", segment: leg.first, geometry: segmentGeometry(path, leg.first) })
+    } else if (persona === "cat-lover" && leg.first <= middle && middle <= leg.last) {
+      steps.push({ type: "tip", tip: "cats", segment: middle, geometry: segmentGeometry(path, middle) })
+    } else if (persona === "cat-fearful" && index === 0) {
+      steps.push({ type: "tip", tip: "well-lit", segment: leg.first, geometry: segmentGeometry(path, leg.first) })
+    }
+  })
+
+  steps.push({
+    type: "arrive",
+    place: placeName(destination),
+    segment: lastSegment,
+    geometry: [[destination.lat, destination.lng]],
+  })
+  steps.push({
+    type: "summary",
+    distance: pathDistance(path),
+    duration: pathDuration(campus, path, speed),
+    segment: lastSegment,
+    geometry: segmentGeometry(path, 0, lastSegment),
+  })
+
+  return steps
+}
+
+// Render a step as an English sentence
+export function formatDirectionStep(step: DirectionStep): string {
+  switch (step.type) {
+    case "start":
+      return `Start at ${step.place}`
+    case "gate":
+      return `Enter via ${step.gate}`
+    case "note":
+      return step.text
+    case "tip":
+      return tipText[step.tip]
+    case "warning":
+      return hazardWarning(step.zone)
+    case "step-free-warning":
+      return "♿ No step-free route exists - this route includes steps or unpaved ground"
+    case "entrance":
+      return `♿ Accessible entrance to ${step.place}: ${step.entrance}`
+    case "building":
+      return `${step.action === "enter" ? "Enter" : "Leave"} ${step.place}`
+    case "floor":
+      return `Take the ${step.via} ${step.direction} to the ${step.floor.toLowerCase()}`
+    case "arrive":
+      return `Arrive at ${step.place}`
+    case "summary":
+      return `📍 Total distance: ${Math.round(step.distance)}m (about ${formatDuration(step.duration)} on foot)`
+    case "move": {
+      const distance = `${Math.round(step.distance)}m`
+      const arrival = step.destination ? ` to reach ${step.destination}` : ""
+
+      if (step.floor) {
+        return `Walk ${distance} along the ${step.floor.toLowerCase()} corridor${arrival || ` to ${step.toward}`}`
+      }
+      // A map point right on a walkway joins or leaves it where it stands
+      if (step.walkway && step.distance < 1) {
+        return step.walkway === "join" ? "Step onto the walkway" : `Step off the walkway${arrival}`
+      }
+      if (step.walkway === "join") {
+        return `Walk ${bearingToDirection(step.bearing)} for ${distance} to the nearest walkway`
+      }
+      if (step.maneuver === "depart") {
+        return `Head ${bearingToDirection(step.bearing)} for ${distance}${arrival}`
+      }
+      if (step.walkway === "leave") {
+        return `${maneuverText[step.maneuver]} off the walkway and walk ${distance}${arrival}`
+      }
+
+      const where = step.landmark ? ` ${step.maneuver === "straight" ? "past" : "at"} ${step.landmark}` : ""
+      return `${maneuverText[step.maneuver]}${where} and walk ${distance}${arrival}`
+    }
+  }
+}
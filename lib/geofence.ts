@@ -0,0 +1,75 @@
+// Campus geofence - whether a position is on campus, and the gate to come in by when it isn't
+
+import type { CampusData, Gate, GateMode, GateUser, Location } from "./campus-data"
+import { isOpen } from "./opening-hours"
+import { calculateDistance, findPath, pathDistance, type RouteEndpoint } from "./path-network"
+
+// Ray casting: count how many ring edges a ray from the point crosses. Flat-earth, which is fine at campus scale.
+export function isInsidePolygon(point: { lat: number; lng: number }, ring: [number, number][]): boolean {
+  let inside = false
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const [latI, lngI] = ring[i]
+    const [latJ, lngJ] = ring[j]
+    if (
+      latI > point.lat !== latJ > point.lat &&
+      point.lng < ((lngJ - lngI) * (point.lat - latI)) / (latJ - latI) + lngI
+    ) {
+      inside = !inside
+    }
+  }
+  return inside
+}
+
+// Campuses without a boundary count everywhere as on campus
+export function isOnCampus(campus: CampusData, point: { lat: number; lng: number }): boolean {
+  return !campus.boundary || isInsidePolygon(point, campus.boundary.polygon)
+}
+
+// How someone comes onto the campus: on foot or driving in, as a student or a visitor
+export interface Arrival {
+  mode: GateMode
+  user: GateUser
+}
+
+export interface GateChoice {
+  gate: Gate
+  location: Location // where the gate stands
+  distance: number // meters from the position to the gate, as the crow flies
+}
+
+export function gateAdmits(gate: Gate, arrival: Arrival): boolean {
+  return gate.modes.includes(arrival.mode) && gate.users.includes(arrival.user)
+}
+
+// The best gate to come in by: of the open gates that let the arrival through, the one making the shortest trip -
+// as the crow flies to the gate (there are no walkways to follow off campus), then along the walkways to the
+// destination when there is one. Null when every such gate is shut.
+export function bestGate(
+  campus: CampusData,
+  point: { lat: number; lng: number },
+  arrival: Arrival,
+  { destination, time = new Date() }: { destination?: RouteEndpoint; time?: Date } = {},
+): GateChoice | null {
+  let best: (GateChoice & { total: number }) | null = null
+  for (const gate of campus.boundary?.gates ?? []) {
+    const location = campus.locations.find((candidate) => candidate.name === gate.location)
+    if (!location || !gateAdmits(gate, arrival) || !isOpen(gate, time)) continue
+
+    const distance = calculateDistance(point.lat, point.lng, location.lat, location.lng)
+    const inside = destination === undefined ? [] : findPath(campus, location.name, destination)
+    if (!inside) continue
+    const total = distance + pathDistance(inside)
+    if (!best || total < best.total) best = { gate, location, distance, total }
+  }
+  return best && { gate: best.gate, location: best.location, distance: best.distance }
+}
+
+// "850m", or "3.2 km" once it's a long way
+export function formatDistance(meters: number): string {
+  return meters < 1000 ? `${Math.round(meters)}m` : `${(meters / 1000).toFixed(1)} km`
+}
+
+// "students on foot", "visitors driving in"
+export function describeArrival({ mode, user }: Arrival): string {
+  return `${user} ${mode === "pedestrian" ? "on foot" : "driving in"}`
+}
@@ -0,0 +1,46 @@
+// Hazard zones - time-windowed danger areas around locations like the Snakes Area
+
+import type { CampusData, Hazard, Location } from "./campus-data"
+
+export type HazardAvoidance = "off" | "penalise" | "avoid"
+
+export interface HazardZone {
+  location: Location
+  hazard: Hazard
+}
+
+// Every location on a campus that carries a hazard, whether or not it is active right now
+export function hazardZones(campus: CampusData): HazardZone[] {
+  return campus.locations
+    .filter((location) => location.hazard)
+    .map((location) => ({ location, hazard: location.hazard! }))
+}
+
+// Night-time mode pins the clock to this hour so night-only hazards are always active
+export const NIGHT_HOUR = 22
+
+export function isHazardActive(hazard: Hazard, time: Date = new Date()): boolean {
+  const hour = time.getHours()
+
+  if (hazard.activeFrom <= hazard.activeUntil) {
+    return hour >= hazard.activeFrom && hour < hazard.activeUntil
+  }
+  // Window wraps past midnight, e.g. 19:00 → 06:00
+  return hour >= hazard.activeFrom || hour < hazard.activeUntil
+}
+
+export function getActiveHazardZones(campus: CampusData, time: Date = new Date()): HazardZone[] {
+  return hazardZones(campus).filter((zone) => isHazardActive(zone.hazard, time))
+}
+
+// Night-time on the day of `time`
+export function nightTime(time: Date = new Date()): Date {
+  const night = new Date(time)
+  night.setHours(NIGHT_HOUR, 0, 0, 0)
+  return night
+}
+
+export function formatActiveHours(hazard: Hazard): string {
+  const format = (hour: number) => `${hour.toString().padStart(2, "0")}:00`
+  return `${format(hazard.activeFrom)}–${format(hazard.activeUntil)}`
+}
@@ -0,0 +1,88 @@
+// LLM-backed navigator provider - talks to any OpenAI-compatible chat completions endpoint
+
+import { z } from "zod"
+import type { Location } from "./campus-data"
+import { localNavigatorProvider, type NavigatorIntent, type NavigatorProvider } from "./navigator"
+import { formatOpeningStatus, openingStatus } from "./opening-hours"
+import { describeSubLocation } from "./search"
+
+const intentSchema = z.discriminatedUnion("kind", [
+  z.object({ kind: z.literal("find-location"), location: z.string(), reply: z.string() }),
+  z.object({ kind: z.literal("route"), from: z.string().nullable(), to: z.string(), reply: z.string() }),
+  z.object({ kind: z.literal("list-places"), locations: z.array(z.string()), reply: z.string() }),
+  z.object({ kind: z.literal("clarify"), from: z.array(z.string()), to: z.array(z.string()), reply: z.string() }),
+  z.object({ kind: z.literal("unknown"), reply: z.string() }),
+])
+
+const SYSTEM_PROMPT = `You are the campus navigator for a university campus map.
+Answer ONLY with a JSON object, using exactly one of these shapes:
+{"kind":"find-location","location":"<location name>","reply":"<short friendly answer>"}
+{"kind":"route","from":"<location name or null for the user's current position>","to":"<location name>","reply":"<short friendly answer>"}
+{"kind":"list-places","locations":["<location name>", ...],"reply":"<short friendly answer>"}
+{"kind":"clarify","from":["<candidate origin>", ...],"to":["<candidate destination>", ...],"reply":"<question asking which one>"}
+{"kind":"unknown","reply":"<short friendly answer>"}
+Use "clarify" when the origin or destination of a route could mean several locations: list every candidate for
+that side, a single name for a side that is clear, and an empty "from" list for the user's current position.
+Location names must be copied exactly from the campus locations below. Rooms, departments and offices are
+listed under the location they are in: answer with that location's name, and say where inside it they are.
+Prefer places that are open right now; if you do suggest a closed place, say in the reply that it is closed.`
+
+interface LLMProviderConfig {
+  apiKey: string
+  model: string
+  baseUrl: string
+}
+
+export function createLLMNavigatorProvider({ apiKey, model, baseUrl }: LLMProviderConfig): NavigatorProvider {
+  return {
+    name: "llm",
+    async interpret(request) {
+      const time = request.time ?? new Date()
+      const hours = (location: Location) => {
+        const status = openingStatus(location, time)
+        return status ? ` Now: ${formatOpeningStatus(status, time)}.` : ""
+      }
+      const campusContext = request.campus.locations
+        .map((location) =>
+          [
+            `- ${location.name} (${location.type}): ${location.description} Tags: ${location.tags.join(", ")}.${hours(location)}`,
+            ...(location.subLocations ?? []).map(
+              (subLocation) => `  - ${subLocation.kind}: ${describeSubLocation(location, subLocation)}`,
+            ),
+          ].join("\n"),
+        )
+        .join("\n")
+
+      try {
+        const response = await fetch(`${baseUrl}/chat/completions`, {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+            Authorization: `Bearer ${apiKey}`,
+          },
+          body: JSON.stringify({
+            model,
+            temperature: 0,
+            response_format: { type: "json_object" },
+            messages: [
+              { role: "system", content: `${SYSTEM_PROMPT}\n\nCampus locations:\n${campusContext}` },
+              ...request.messages,
+            ],
+          }),
+        })
+
+        if (!response.ok) {
+          throw new Error(`LLM request failed with status ${response.status}`)
+        }
+
+        const completion = await response.json()
+        const intent: NavigatorIntent = intentSchema.parse(JSON.parse(completion.choices[0].message.content))
+        return intent
+      } catch (error) {
+        // Never leave the user without an answer - the local provider is always available
+        console.log("[v0] LLM navigator failed, using local provider:", error)
+        return localNavigatorProvider.interpret(request)
+      }
+    },
+  }
+}
@@ -0,0 +1,273 @@
+// Campus navigator - chat intents and the pluggable providers that produce them
+
+import type { CampusData, Location } from "./campus-data"
+import { formatOpeningStatus, isOpen, openingStatus } from "./opening-hours"
+import { describeSubLocation, searchLocations, type SearchResult } from "./search"
+
+export interface ChatMessage {
+  role: "user" | "assistant"
+  content: string
+}
+
+export type NavigatorIntent =
+  | { kind: "find-location"; location: string; reply: string }
+  | { kind: "route"; from: string | null; to: string; reply: string }
+  | { kind: "list-places"; locations: string[]; reply: string }
+  // Candidate locations per side: one entry is settled, several need the user to pick, an empty
+  // origin means "my current position"
+  | { kind: "clarify"; from: string[]; to: string[]; reply: string }
+  | { kind: "unknown"; reply: string }
+
+export interface NavigatorRequest {
+  messages: ChatMessage[]
+  campus: CampusData
+  // Campus wall-clock time for opening hours (see wallClockTime); defaults to now
+  time?: Date
+}
+
+// Anything that can turn a conversation into an intent: the local stub, an LLM, ...
+export interface NavigatorProvider {
+  name: string
+  interpret(request: NavigatorRequest): Promise<NavigatorIntent>
+}
+
+export const ASK_DESTINATION_REPLY = "Got it! Where would you like to go?"
+
+const FALLBACK_REPLY =
+  "Hmm, I'm not sure where that is, but you can explore the map! Try asking about food, study spots, romantic places, or sports facilities."
+
+const LIST_PATTERN = /\b(list|all|every|which places|what places)\b/g
+
+export interface RouteRequest {
+  origin: string | null
+  destination: string | null
+}
+
+// Each phrase runs until punctuation, a connecting word, or the end of the query
+const BETWEEN_PATTERN = /\bbetween\s+(.+?)\s+and\s+(.+?)(?=[?.!,;]|$)/
+const FROM_TO_PATTERN = /\bfrom\s+(.+?)\s+to\s+(.+?)(?=[?.!,;]|$)/
+const TO_FROM_PATTERN = /\bto\s+(.+?)\s+from\s+(.+?)(?=[?.!,;]|$)/
+const ORIGIN_PATTERN =
+  /\b(?:i'?m|i am)\s+(?:at|near|in|by|outside)\s+(.+?)(?=[?.!,;]|\s+(?:and|how|where|what|take|show|can)\b|$)/
+const DESTINATION_PATTERN =
+  /\b(?:get|go|walk|head|take me|way|directions|route|navigate)\s+(?:back\s+)?to\s+(.+?)(?=[?.!,;]|\s+from\b|$)/
+
+// Second-best matches scoring at least this share of the best one make a phrase ambiguous
+const AMBIGUITY_RATIO = 0.75
+
+// Closed places still match, but rank as if they matched this much less well
+const CLOSED_FACTOR = 0.5
+
+function cleanPhrase(phrase: string): string {
+  return phrase
+    .replace(/\b(please|pls|now|right now)\b/g, " ")
+    .replace(/^\s*(the|a|an)\s+/, "")
+    .replace(/\s+/g, " ")
+    .trim()
+}
+
+// Pull explicit origin/destination phrases out of a query ("from X to Y", "between X and Y", "I'm at X")
+export function parseRouteRequest(query: string): RouteRequest | null {
+  const lowerQuery = query.toLowerCase().trim()
+
+  const between = lowerQuery.match(BETWEEN_PATTERN)
+  if (between) return { origin: cleanPhrase(between[1]), destination: cleanPhrase(between[2]) }
+
+  const fromTo = lowerQuery.match(FROM_TO_PATTERN)
+  if (fromTo) return { origin: cleanPhrase(fromTo[1]), destination: cleanPhrase(fromTo[2]) }
+
+  const toFrom = lowerQuery.match(TO_FROM_PATTERN)
+  if (toFrom) return { origin: cleanPhrase(toFrom[2]), destination: cleanPhrase(toFrom[1]) }
+
+  const origin = lowerQuery.match(ORIGIN_PATTERN)
+  const destination = lowerQuery.match(DESTINATION_PATTERN)
+  if (!origin && !destination) return null
+
+  return {
+    origin: origin ? cleanPhrase(origin[1]) : null,
+    destination: destination ? cleanPhrase(destination[1]) : null,
+  }
+}
+
+// Rank places that are closed at `time` below open ones that match about as well
+function rankByOpening(matches: SearchResult[], time: Date): SearchResult[] {
+  return matches
+    .map((match) => (isOpen(match.location, time) ? match : { ...match, score: match.score * CLOSED_FACTOR }))
+    .sort((a, b) => b.score - a.score)
+}
+
+// Reply sentence warning that a place is closed, empty when it is open
+function closedNote(location: Location, time: Date): string {
+  const status = openingStatus(location, time)
+  if (!status || status.open) return ""
+  const text = formatOpeningStatus(status, time).replace(" · ", ", ")
+  return ` Heads up: ${location.name} is ${text.charAt(0).toLowerCase()}${text.slice(1)}.`
+}
+
+// Locations a phrase could refer to: an exact name wins outright, otherwise every search result
+// close enough to the best one, closed places ranked lower. Empty means no match, several means the
+// phrase is ambiguous.
+export function resolveLocationPhrase(phrase: string, locations: Location[], time: Date = new Date()): SearchResult[] {
+  const exact = locations.find((location) => location.name.toLowerCase() === phrase.toLowerCase())
+  if (exact) return [{ location: exact, score: Number.POSITIVE_INFINITY }]
+
+  const matches = rankByOpening(searchLocations(phrase, locations), time)
+  if (matches.length === 0) return []
+
+  const bestScore = matches[0].score
+  return matches.filter(({ score }) => score >= bestScore * AMBIGUITY_RATIO)
+}
+
+// How a reply names a match: the room, department or office the user asked for, else the location
+function matchLabel({ location, subLocation }: SearchResult): string {
+  return subLocation ? describeSubLocation(location, subLocation) : location.name
+}
+
+// Rooms, departments and offices route to their building's entrance
+function routeIntent(
+  origin: SearchResult[],
+  destination: SearchResult[],
+  phrases: { origin: string; destination: string },
+  time: Date,
+): NavigatorIntent {
+  const from = origin.map(({ location }) => location.name)
+  const to = destination.map(({ location }) => location.name)
+
+  if (from.length > 1) {
+    return { kind: "clarify", from, to, reply: `Which "${phrases.origin}" are you at: ${from.join(" or ")}?` }
+  }
+  if (to.length > 1) {
+    return {
+      kind: "clarify",
+      from,
+      to,
+      reply: `A few places match "${phrases.destination}": ${to.join(" or ")}. Which one did you mean?`,
+    }
+  }
+
+  const target = matchLabel(destination[0])
+  const reply =
+    (from.length === 0 ? `Let's get you to ${target}.` : `Here's the way from ${matchLabel(origin[0])} to ${target}.`) +
+    closedNote(destination[0].location, time)
+  return { kind: "route", from: from[0] ?? null, to: to[0], reply }
+}
+
+// Deterministic provider for offline development and tests - no network, same answer every time
+export const localNavigatorProvider: NavigatorProvider = {
+  name: "local",
+  async interpret({ messages, campus, time = new Date() }) {
+    const lastUserMessage = [...messages].reverse().find((message) => message.role === "user")
+    if (!lastUserMessage) return { kind: "unknown", reply: FALLBACK_REPLY }
+
+    const query = lastUserMessage.content.trim()
+    const lowerQuery = query.toLowerCase()
+
+    let routeRequest = parseRouteRequest(query)
+
+    // Answering our "where would you like to go?" - the origin was given in the previous message
+    const previousReply = messages[messages.length - 2]
+    if (
+      !routeRequest?.origin &&
+      previousReply?.role === "assistant" &&
+      previousReply.content === ASK_DESTINATION_REPLY
+    ) {
+      const userMessages = messages.filter((message) => message.role === "user")
+      const previousRequest = parseRouteRequest(userMessages[userMessages.length - 2]?.content ?? "")
+      if (previousRequest?.origin) {
+        routeRequest = {
+          origin: previousRequest.origin,
+          destination: routeRequest?.destination ?? cleanPhrase(lowerQuery),
+        }
+      }
+    }
+
+    if (routeRequest) {
+      const notFound = (phrase: string): NavigatorIntent => ({
+        kind: "unknown",
+        reply: `I couldn't find "${phrase}" on the campus map. Could you name the place differently?`,
+      })
+
+      const origin = routeRequest.origin ? resolveLocationPhrase(routeRequest.origin, campus.locations, time) : []
+      if (routeRequest.origin && origin.length === 0) return notFound(routeRequest.origin)
+
+      // "I'm at the library, where can I eat?" - the destination is whatever the rest of the query asks for
+      const destinationPhrase =
+        routeRequest.destination ??
+        cleanPhrase(
+          lowerQuery
+            .replace(ORIGIN_PATTERN, " ")
+            .replace(/[?.!,;]/g, " ")
+            .replace(/\b(where|can|could|i|get|find|some)\b/g, " "),
+        )
+      const destination = resolveLocationPhrase(destinationPhrase, campus.locations, time)
+
+      if (destination.length === 0) {
+        if (routeRequest.destination) return notFound(routeRequest.destination)
+        // Settle an unclear origin first; the destination is asked for once it is
+        const from = origin.map(({ location }) => location.name)
+        const reply =
+          from.length > 1 ? `Which "${routeRequest.origin}" are you at: ${from.join(" or ")}?` : ASK_DESTINATION_REPLY
+        return { kind: "clarify", from, to: [], reply }
+      }
+
+      return routeIntent(
+        origin,
+        destination,
+        { origin: routeRequest.origin ?? "", destination: destinationPhrase },
+        time,
+      )
+    }
+
+    // "list all ..." words say what to do with the results, they shouldn't match places themselves
+    const wantsList = lowerQuery.match(LIST_PATTERN) !== null
+    const searchQuery = lowerQuery.replace(LIST_PATTERN, " ")
+
+    const matches = rankByOpening(searchLocations(searchQuery, campus.locations), time)
+
+    if (matches.length === 0) return { kind: "unknown", reply: FALLBACK_REPLY }
+
+    // "Show me all" lists every match; otherwise list only when several places fit about equally well
+    const bestScore = matches[0].score
+    const listed = wantsList ? matches : matches.filter(({ score }) => score >= bestScore * AMBIGUITY_RATIO)
+    if (listed.length > 1) {
+      const closed = listed.filter(({ location }) => !isOpen(location, time)).map(({ location }) => location.name)
+      const closedReply =
+        closed.length === 0 ? "" : ` (${closed.join(", ")} ${closed.length === 1 ? "is" : "are"} closed right now)`
+      return {
+        kind: "list-places",
+        locations: listed.map(({ location }) => location.name),
+        reply: `I found ${listed.length} places that match${closedReply} - pick one and I'll take you there:`,
+      }
+    }
+
+    const best = matches[0]
+    return {
+      kind: "find-location",
+      location: best.location.name,
+      reply:
+        (best.subLocation
+          ? `I found ${matchLabel(best)} for you.`
+          : `I found ${best.location.name} for you. ${best.location.description}`) + closedNote(best.location, time),
+    }
+  },
+}
+
+// Make sure an intent only names real locations, downgrading it to "unknown" otherwise
+export function sanitizeIntent(intent: NavigatorIntent, campus: CampusData): NavigatorIntent {
+  const exists = (name: string | null) => name === null || campus.locations.some((location) => location.name === name)
+
+  switch (intent.kind) {
+    case "find-location":
+      return exists(intent.location) ? intent : { kind: "unknown", reply: FALLBACK_REPLY }
+    case "route":
+      return exists(intent.from) && exists(intent.to) ? intent : { kind: "unknown", reply: FALLBACK_REPLY }
+    case "list-places": {
+      const locations = intent.locations.filter((name) => exists(name))
+      return locations.length > 0 ? { ...intent, locations } : { kind: "unknown", reply: FALLBACK_REPLY }
+    }
+    case "clarify":
+      return intent.from.every(exists) && intent.to.every(exists) ? intent : { kind: "unknown", reply: FALLBACK_REPLY }
+    default:
+      return intent
+  }
+}
@@ -0,0 +1,88 @@
+import { describe, expect, it } from "vitest"
+import type { OpeningHours } from "./campus-data"
+import { formatOpeningStatus, isOpen, openingStatus, wallClockTime } from "./opening-hours"
+
+// 2026-10-19 is a Monday; times are local wall-clock times, as the module reads them
+const at = (day: number, hours: number, minutes = 0) => new Date(2026, 9, day, hours, minutes)
+
+const canteen: { openingHours: OpeningHours } = {
+  openingHours: {
+    weekly: {
+      mon: [{ open: "08:00", close: "22:00" }],
+      tue: [{ open: "08:00", close: "22:00" }],
+    },
+  },
+}
+
+// Open late on Friday and Saturday, past midnight
+const lateNight: { openingHours: OpeningHours } = {
+  openingHours: {
+    weekly: {
+      fri: [{ open: "18:00", close: "02:00" }],
+      sat: [{ open: "18:00", close: "02:00" }],
+    },
+  },
+}
+
+describe("openingStatus", () => {
+  it("is null for places without opening hours, which never close", () => {
+    expect(openingStatus({}, at(19, 3))).toBeNull()
+    expect(isOpen({}, at(19, 3))).toBe(true)
+  })
+
+  it("is open within a period and reports when it closes", () => {
+    const status = openingStatus(canteen, at(19, 12))
+    expect(status?.open).toBe(true)
+    expect(status?.changesAt).toEqual(at(19, 22))
+  })
+
+  it("treats the closing time as closed", () => {
+    expect(isOpen(canteen, at(19, 22))).toBe(false)
+  })
+
+  it("keeps a period that runs past midnight open into the next day", () => {
+    expect(isOpen(lateNight, at(23, 23))).toBe(true)
+    expect(isOpen(lateNight, at(24, 1, 30))).toBe(true)
+    expect(openingStatus(lateNight, at(24, 1, 30))?.changesAt).toEqual(at(24, 2))
+    expect(isOpen(lateNight, at(24, 2, 30))).toBe(false)
+  })
+
+  it("joins back-to-back periods across midnight", () => {
+    const allNight = {
+      openingHours: {
+        weekly: { mon: [{ open: "20:00", close: "24:00" }], tue: [{ open: "00:00", close: "06:00" }] },
+      },
+    }
+    expect(openingStatus(allNight, at(19, 23))?.changesAt).toEqual(at(20, 6))
+  })
+
+  it("lets a holiday exception replace the weekly pattern, with its note", () => {
+    const holiday = {
+      openingHours: {
+        ...canteen.openingHours,
+        exceptions: [{ date: "2026-10-20", periods: [], note: "Closed for Diwali" }],
+      },
+    }
+    const status = openingStatus(holiday, at(20, 12))
+    expect(status).toEqual({ open: false, changesAt: at(26, 8), note: "Closed for Diwali" })
+  })
+})
+
+describe("formatOpeningStatus", () => {
+  it("calls out closing soon", () => {
+    const time = at(19, 21, 40)
+    expect(formatOpeningStatus(openingStatus(canteen, time)!, time)).toBe("Open now · closes in 20 min")
+  })
+
+  it("says when a closed place opens next", () => {
+    const time = at(19, 23)
+    expect(formatOpeningStatus(openingStatus(canteen, time)!, time)).toBe("Closed · opens tomorrow at 08:00")
+  })
+})
+
+describe("wallClockTime", () => {
+  it("reads the clock in the given time zone", () => {
+    const time = wallClockTime("Asia/Kolkata", new Date("2026-10-18T18:45:00Z"))
+    expect([time.getDate(), time.getHours(), time.getMinutes()]).toEqual([19, 0, 15])
+  })
+})
@@ -0,0 +1,145 @@
+// Opening hours - weekly schedules with holiday exceptions, and whether a location or gate is open at a given time
+
+import type { OpeningHours, OpeningPeriod, Weekday } from "./campus-data"
+
+// Locations and gates both keep their hours here
+type Scheduled = { openingHours?: OpeningHours }
+
+export interface OpeningStatus {
+  open: boolean
+  // When the place next opens or closes; null when that is more than a week away
+  changesAt: Date | null
+  // Why today is different, from the exception that applies, e.g. "Closed for Diwali"
+  note?: string
+}
+
+// Closing within this many minutes is called out as "closes in 20 min"
+export const CLOSING_SOON_MINUTES = 60
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+// In Date.getDay() order
+const weekdays: Weekday[] = ["sun", "mon", "tue", "wed", "thu", "fri", "sat"]
+
+const weekdayNames: Record<Weekday, string> = {
+  mon: "Monday",
+  tue: "Tuesday",
+  wed: "Wednesday",
+  thu: "Thursday",
+  fri: "Friday",
+  sat: "Saturday",
+  sun: "Sunday",
+}
+
+function dateKey(day: Date): string {
+  const pad = (value: number) => value.toString().padStart(2, "0")
+  return `${day.getFullYear()}-${pad(day.getMonth() + 1)}-${pad(day.getDate())}`
+}
+
+function minutesOf(clock: string): number {
+  const [hours, minutes] = clock.split(":").map(Number)
+  return hours * 60 + minutes
+}
+
+// The periods that apply on a calendar day: a matching exception replaces the weekly pattern
+function periodsOn(hours: OpeningHours, day: Date): { periods: OpeningPeriod[]; note?: string } {
+  const exception = hours.exceptions?.find((candidate) => candidate.date === dateKey(day))
+  if (exception) return exception
+  return { periods: hours.weekly[weekdays[day.getDay()]] ?? [] }
+}
+
+// Open intervals from the day before `time` (for periods running past midnight) to a week after it,
+// with back-to-back intervals joined so "24:00" followed by "00:00" reads as staying open
+function openIntervals(hours: OpeningHours, time: Date): { start: Date; end: Date }[] {
+  const intervals: { start: Date; end: Date }[] = []
+
+  for (let offset = -1; offset <= 7; offset++) {
+    const day = new Date(time)
+    day.setHours(0, 0, 0, 0)
+    day.setDate(day.getDate() + offset)
+
+    periodsOn(hours, day).periods.forEach(({ open, close }) => {
+      const start = new Date(day)
+      start.setMinutes(minutesOf(open))
+      const end = new Date(day)
+      end.setMinutes(minutesOf(close) + (minutesOf(close) <= minutesOf(open) ? 24 * 60 : 0))
+      intervals.push({ start, end })
+    })
+  }
+
+  intervals.sort((a, b) => a.start.getTime() - b.start.getTime())
+  return intervals.reduce<{ start: Date; end: Date }[]>((joined, interval) => {
+    const last = joined[joined.length - 1]
+    if (last && interval.start <= last.end) {
+      if (interval.end > last.end) last.end = interval.end
+    } else {
+      joined.push({ ...interval })
+    }
+    return joined
+  }, [])
+}
+
+// The wall-clock time in a time zone, e.g. "Asia/Kolkata", as a Date whose local fields read that clock.
+// Schedules are checked against local fields, so this keeps a server in another zone on the campus's hours.
+export function wallClockTime(timeZone: string, time: Date = new Date()): Date {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    hourCycle: "h23",
+    year: "numeric",
+    month: "numeric",
+    day: "numeric",
+    hour: "numeric",
+    minute: "numeric",
+    second: "numeric",
+  }).formatToParts(time)
+  const field = (type: Intl.DateTimeFormatPartTypes) => Number(parts.find((part) => part.type === type)?.value)
+  return new Date(field("year"), field("month") - 1, field("day"), field("hour"), field("minute"), field("second"))
+}
+
+// Whether a place is open at a time, and when that changes; null for places without opening hours
+export function openingStatus(place: Scheduled, time: Date = new Date()): OpeningStatus | null {
+  if (!place.openingHours) return null
+
+  const intervals = openIntervals(place.openingHours, time)
+  const today = periodsOn(place.openingHours, time)
+  const withinWeek = (date: Date) => (date.getTime() - time.getTime() < 7 * DAY_MS ? date : null)
+
+  const current = intervals.find(({ start, end }) => start <= time && time < end)
+  if (current) return { open: true, changesAt: withinWeek(current.end), note: today.note }
+
+  // "Diwali hours" explains an odd opening, but not why the place is shut after them
+  const next = intervals.find(({ start }) => start > time)
+  const note = today.periods.length === 0 ? today.note : undefined
+  return { open: false, changesAt: next ? withinWeek(next.start) : null, note }
+}
+
+// Places without opening hours never close
+export function isOpen(place: Scheduled, time: Date = new Date()): boolean {
+  return openingStatus(place, time)?.open ?? true
+}
+
+function formatClock(date: Date): string {
+  return `${date.getHours().toString().padStart(2, "0")}:${date.getMinutes().toString().padStart(2, "0")}`
+}
+
+// e.g. "Open now · closes in 20 min", "Open now · until 22:00", "Closed for Diwali · opens tomorrow at 08:00"
+export function formatOpeningStatus(status: OpeningStatus, time: Date = new Date()): string {
+  const { open, changesAt, note } = status
+
+  if (open) {
+    const label = note ? `Open now (${note})` : "Open now"
+    if (!changesAt) return `${label} · open 24 hours`
+    const minutesLeft = Math.ceil((changesAt.getTime() - time.getTime()) / 60000)
+    if (minutesLeft <= CLOSING_SOON_MINUTES) return `${label} · closes in ${minutesLeft} min`
+    return `${label} · until ${formatClock(changesAt)}`
+  }
+
+  const label = note ?? "Closed"
+  if (!changesAt) return label
+
+  const today = new Date(time)
+  today.setHours(0, 0, 0, 0)
+  const days = Math.round((new Date(changesAt).setHours(0, 0, 0, 0) - today.getTime()) / DAY_MS)
+  const when = days === 0 ? "" : days === 1 ? "tomorrow " : `${weekdayNames[weekdays[changesAt.getDay()]]} `
+  return `${label} · opens ${when}at ${formatClock(changesAt)}`
+}
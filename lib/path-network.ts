@@ -1,15 +1,147 @@
-// Campus path network - Simplified for guaranteed routing
+// Campus path network - walkway graph and routing
+
+import type { CampusData, Floor, Location, Persona, Room } from "./campus-data"
+import { getActiveHazardZones, type HazardAvoidance, type HazardZone } from "./hazards"
 
 export interface PathNode {
   id: string
   lat: number
   lng: number
   name: string
-  type: "intersection" | "location" | "waypoint"
+  type: "intersection" | "location" | "waypoint" | "indoor"
+  // Where an indoor node is: its building and floor
+  indoor?: { building: string; level: number; floor: string }
+}
+
+export type CatSightings = "none" | "occasional" | "frequent"
+
+export interface EdgeAttributes {
+  wellLit: boolean
+  landmarkRich: boolean
+  catSightings: CatSightings
+  paved: boolean
+  shortcut: boolean
+  steps: boolean // stairs or a kerb somewhere along the way
+  ramp: boolean
+  lift: boolean
+  // Usable without steps or rough ground; unless set explicitly, paved edges without steps are
+  accessible: boolean
+}
+
+// A walkway between two junctions, or from a location's entrance (its locationNodeId()) to a junction.
+// Omitted attributes fall back to defaultEdgeAttributes (paved, unlit, no cats, no landmarks).
+export interface WalkwayEdge {
+  from: string
+  to: string
+  attributes?: Partial<EdgeAttributes>
+  // Effort in meters of level walking, for edges whose length isn't their ground distance (stairs and lifts)
+  weight?: number
+}
+
+// A persona's routing preferences: each multiplier scales an edge's walking distance when the
+// attribute applies, so values below 1 attract the route and values above 1 repel it
+export interface PersonaCostProfile {
+  wellLit: number
+  landmarkRich: number
+  catSightings: Record<CatSightings, number>
+  paved: number
+  shortcut: number
+}
+
+// A raw coordinate to route from or to, e.g. a GPS fix or a dropped pin
+export interface MapPoint {
+  lat: number
+  lng: number
+  name?: string
+}
+
+// A room inside a building, by the building's name and the room's id
+export interface RoomRef {
+  location: string
+  room: string
+}
+
+// A named location, a raw coordinate or a room inside a building
+export type RouteEndpoint = string | MapPoint | RoomRef
+
+export interface FindPathOptions {
+  persona?: Persona
+  avoidHazards?: HazardAvoidance
+  time?: Date
+  // Only use accessible edges, preferring ramps and lifts
+  stepFree?: boolean
+}
+
+interface WalkwayAdjacency {
+  to: string
+  weight: number
+  attributes: EdgeAttributes
+}
+
+interface WalkwayGraph {
+  nodes: Map<string, PathNode>
+  adjacency: Map<string, WalkwayAdjacency[]>
+}
+
+// Cost multiplier for walking through an active hazard zone when avoidance is "penalise"
+const HAZARD_PENALTY = 6
+
+// Cost multiplier for ramps and lifts on a step-free route
+const STEP_FREE_AID = 0.8
+
+// Effort of going one floor up or down, in meters of level walking; the lift costs its wait
+const FLIGHT_EFFORT = 15
+const LIFT_EFFORT = 25
+
+const defaultEdgeAttributes: EdgeAttributes = {
+  wellLit: false,
+  landmarkRich: false,
+  catSightings: "none",
+  paved: true,
+  shortcut: false,
+  steps: false,
+  ramp: false,
+  lift: false,
+  accessible: true,
+}
+
+export const personaCostProfiles: Record<Persona, PersonaCostProfile> = {
+  // Pure walking distance
+  faculty: {
+    wellLit: 1,
+    landmarkRich: 1,
+    catSightings: { none: 1, occasional: 1, frequent: 1 },
+    paved: 1,
+    shortcut: 1,
+  },
+  // Easy-to-follow paths past recognisable buildings, no confusing shortcuts
+  "new-student": {
+    wellLit: 0.9,
+    landmarkRich: 0.6,
+    catSightings: { none: 1, occasional: 1, frequent: 1 },
+    paved: 0.9,
+    shortcut: 1.6,
+  },
+  // Detour through the places the campus cats hang out
+  "cat-lover": {
+    wellLit: 1,
+    landmarkRich: 0.95,
+    catSightings: { none: 1, occasional: 0.7, frequent: 0.4 },
+    paved: 1,
+    shortcut: 1,
+  },
+  // Stay on open, lit, paved paths and well away from cat hotspots
+  "cat-fearful": {
+    wellLit: 0.8,
+    landmarkRich: 1,
+    catSightings: { none: 1, occasional: 2.5, frequent: 8 },
+    paved: 0.9,
+    shortcut: 1.3,
+  },
 }
 
 // Calculate distance between two coordinates (Haversine formula)
-function calculateDistance(lat1: number, lng1: number, lat2: number, lng2: number): number {
+export function calculateDistance(lat1: number, lng1: number, lat2: number, lng2: number): number {
   const R = 6371e3 // Earth's radius in meters
   const φ1 = (lat1 * Math.PI) / 180
   const φ2 = (lat2 * Math.PI) / 180
@@ -23,7 +155,7 @@ function calculateDistance(lat1: number, lng1: number, lat2: number, lng2: numbe
 }
 
 // Calculate bearing between two points
-function calculateBearing(lat1: number, lng1: number, lat2: number, lng2: number): number {
+export function calculateBearing(lat1: number, lng1: number, lat2: number, lng2: number): number {
   const φ1 = (lat1 * Math.PI) / 180
   const φ2 = (lat2 * Math.PI) / 180
   const Δλ = ((lng2 - lng1) * Math.PI) / 180
@@ -35,108 +167,441 @@ function calculateBearing(lat1: number, lng1: number, lat2: number, lng2: number
   return ((θ * 180) / Math.PI + 360) % 360
 }
 
-// Convert bearing to compass direction
-function bearingToDirection(bearing: number): string {
-  const directions = ["north", "northeast", "east", "southeast", "south", "southwest", "west", "northwest"]
-  const index = Math.round(bearing / 45) % 8
-  return directions[index]
+// Total walking distance along a path in meters
+export function pathDistance(path: PathNode[]): number {
+  return path.reduce((sum, node, i) => {
+    if (i === 0) return 0
+    return sum + calculateDistance(path[i - 1].lat, path[i - 1].lng, node.lat, node.lng)
+  }, 0)
+}
+
+// Project a point onto the segment a→b (flat-earth approximation, fine at campus scale). Returns the
+// distance in meters to the closest point and how far along the segment it lies (0 at a, 1 at b).
+export function projectOntoSegment(
+  lat: number,
+  lng: number,
+  a: { lat: number; lng: number },
+  b: { lat: number; lng: number },
+): { distance: number; t: number } {
+  const metersPerDegreeLat = 111320
+  const metersPerDegreeLng = 111320 * Math.cos((lat * Math.PI) / 180)
+
+  const ax = (a.lng - lng) * metersPerDegreeLng
+  const ay = (a.lat - lat) * metersPerDegreeLat
+  const bx = (b.lng - lng) * metersPerDegreeLng
+  const by = (b.lat - lat) * metersPerDegreeLat
+
+  const dx = bx - ax
+  const dy = by - ay
+  const lengthSquared = dx * dx + dy * dy
+  const t = lengthSquared === 0 ? 0 : Math.max(0, Math.min(1, -(ax * dx + ay * dy) / lengthSquared))
+
+  return { distance: Math.hypot(ax + t * dx, ay + t * dy), t }
 }
 
-// Simple pathfinding that ALWAYS works - creates a direct route with waypoints
-export function findPath(startLocationName: string, endLocationName: string): PathNode[] | null {
-  console.log("[v0] Finding simple path from", startLocationName, "to", endLocationName)
+// Shortest distance in meters from a point to the segment a→b
+export function distanceToSegment(
+  lat: number,
+  lng: number,
+  a: { lat: number; lng: number },
+  b: { lat: number; lng: number },
+): number {
+  return projectOntoSegment(lat, lng, a, b).distance
+}
 
-  // Get location data
-  const { campusData } = require("./campus-data")
-  const startLocation = campusData.locations.find((loc: any) => loc.name === startLocationName)
-  const endLocation = campusData.locations.find((loc: any) => loc.name === endLocationName)
+// Hazard zones whose radius the segment a→b passes through
+export function segmentHazards(
+  a: { lat: number; lng: number },
+  b: { lat: number; lng: number },
+  zones: HazardZone[],
+): HazardZone[] {
+  return zones.filter((zone) => distanceToSegment(zone.location.lat, zone.location.lng, a, b) <= zone.hazard.radius)
+}
 
-  if (!startLocation || !endLocation) {
-    console.log("[v0] Could not find locations")
-    return null
+// Hazard zones anywhere along a path
+export function pathHazards(path: PathNode[], zones: HazardZone[]): HazardZone[] {
+  return zones.filter((zone) => path.some((node, i) => i > 0 && segmentHazards(path[i - 1], node, [zone]).length > 0))
+}
+
+export function hazardWarning(zone: HazardZone): string {
+  return `⚠️ Caution: this route passes within ${zone.hazard.radius}m of ${zone.location.name}. ${zone.hazard.warning} - stay alert!`
+}
+
+export function locationNodeId(locationName: string): string {
+  return `location:${locationName}`
+}
+
+export function roomNodeId(locationName: string, roomId: string): string {
+  return `indoor:${locationName}:${roomId}`
+}
+
+export function isRoomRef(endpoint: RouteEndpoint): endpoint is RoomRef {
+  return typeof endpoint !== "string" && "room" in endpoint
+}
+
+// The room an endpoint points at, with the building and floor it is on
+export function findRoom(campus: CampusData, ref: RoomRef): { location: Location; floor: Floor; room: Room } | null {
+  const location = campus.locations.find((candidate) => candidate.name === ref.location)
+  for (const floor of location?.indoor?.floors ?? []) {
+    const room = floor.rooms.find((candidate) => candidate.id === ref.room)
+    if (room) return { location: location!, floor, room }
   }
+  return null
+}
 
-  // Create simple 3-point path: start → midpoint → end
-  const path: PathNode[] = []
+// Nodes and edges inside a building: every room and connector on a floor is reached along that floor's corridor,
+// connectors join the floors above each other, and the ground floor opens onto the location's own node
+function indoorNetwork(location: Location): { nodes: PathNode[]; edges: WalkwayEdge[] } {
+  const nodes: PathNode[] = []
+  const edges: WalkwayEdge[] = []
+  if (!location.indoor) return { nodes, edges }
+
+  const corridor: Partial<EdgeAttributes> = { wellLit: true }
+  const connectorNodeId = (connectorId: string, level: number) => `${roomNodeId(location.name, connectorId)}@${level}`
+
+  location.indoor.floors.forEach((floor) => {
+    const indoor = { building: location.name, level: floor.level, floor: floor.name }
+    const connectors = location.indoor!.connectors.filter((connector) => connector.levels.includes(floor.level))
+
+    const connectorIds = connectors.map((connector) => {
+      const id = connectorNodeId(connector.id, floor.level)
+      const name = connector.kind === "lift" ? "the lift" : "the stairs"
+      nodes.push({ id, lat: connector.lat, lng: connector.lng, name, type: "indoor", indoor })
+      return id
+    })
+    // On the ground floor, the way in is as good as a connector
+    const hallways = floor.level === 0 ? [...connectorIds, locationNodeId(location.name)] : connectorIds
 
-  // Start node
-  path.push({
-    id: "start",
-    lat: startLocation.lat,
-    lng: startLocation.lng,
-    name: startLocationName,
-    type: "location",
+    floor.rooms.forEach((room) => {
+      const id = roomNodeId(location.name, room.id)
+      nodes.push({ id, lat: room.lat, lng: room.lng, name: room.name, type: "indoor", indoor })
+      hallways.forEach((hallway) => edges.push({ from: hallway, to: id, attributes: corridor }))
+    })
+    if (floor.level === 0) {
+      connectorIds.forEach((id) => edges.push({ from: locationNodeId(location.name), to: id, attributes: corridor }))
+    }
   })
 
-  // Calculate midpoint (creates a more realistic path)
-  const midLat = (startLocation.lat + endLocation.lat) / 2
-  const midLng = (startLocation.lng + endLocation.lng) / 2
+  location.indoor.connectors.forEach((connector) => {
+    const levels = [...connector.levels].sort((a, b) => a - b)
+    levels.slice(1).forEach((level, i) => {
+      const lift = connector.kind === "lift"
+      edges.push({
+        from: connectorNodeId(connector.id, levels[i]),
+        to: connectorNodeId(connector.id, level),
+        attributes: { ...corridor, steps: !lift, lift },
+        weight: (level - levels[i]) * (lift ? LIFT_EFFORT : FLIGHT_EFFORT),
+      })
+    })
+  })
 
-  // Add midpoint waypoint
-  path.push({
-    id: "mid",
-    lat: midLat,
-    lng: midLng,
-    name: "Midpoint",
-    type: "waypoint",
+  return { nodes, edges }
+}
+
+const walkwayGraphs = new WeakMap<CampusData, WalkwayGraph>()
+
+// Build each campus's graph once: junctions + location nodes, with edges weighted by walking distance
+function getWalkwayGraph(campus: CampusData): WalkwayGraph {
+  const cached = walkwayGraphs.get(campus)
+  if (cached) return cached
+
+  const nodes = new Map<string, PathNode>()
+  campus.walkways.junctions.forEach((junction) => nodes.set(junction.id, junction))
+  campus.locations.forEach((location) => {
+    const id = locationNodeId(location.name)
+    nodes.set(id, { id, lat: location.lat, lng: location.lng, name: location.name, type: "location" })
   })
 
-  // End node
-  path.push({
-    id: "end",
-    lat: endLocation.lat,
-    lng: endLocation.lng,
-    name: endLocationName,
-    type: "location",
+  const indoor = campus.locations.map(indoorNetwork)
+  indoor.forEach((building) => building.nodes.forEach((node) => nodes.set(node.id, node)))
+
+  const adjacency = new Map<string, WalkwayAdjacency[]>()
+  ;[...campus.walkways.edges, ...indoor.flatMap((building) => building.edges)].forEach((edge) => {
+    const { from, to } = edge
+    const fromNode = nodes.get(from)
+    const toNode = nodes.get(to)
+    if (!fromNode || !toNode) {
+      console.log("[v0] Skipping walkway with unknown endpoint:", from, "→", to)
+      return
+    }
+
+    const weight = edge.weight ?? calculateDistance(fromNode.lat, fromNode.lng, toNode.lat, toNode.lng)
+    const attributes = { ...defaultEdgeAttributes, ...edge.attributes }
+    attributes.accessible = edge.attributes?.accessible ?? (attributes.paved && !attributes.steps)
+    adjacency.set(from, [...(adjacency.get(from) || []), { to, weight, attributes }])
+    adjacency.set(to, [...(adjacency.get(to) || []), { to: from, weight, attributes }])
   })
 
-  console.log("[v0] Created simple path with", path.length, "points")
+  const graph = { nodes, adjacency }
+  walkwayGraphs.set(campus, graph)
+  return graph
+}
+
+// Attributes of the walkway joining two consecutive path nodes, when they are joined directly in the walkway graph
+export function segmentAttributes(campus: CampusData, from: PathNode, to: PathNode): EdgeAttributes | undefined {
+  return getWalkwayGraph(campus)
+    .adjacency.get(from.id)
+    ?.find((edge) => edge.to === to.id)?.attributes
+}
+
+// Cost of walking an edge for a persona: distance scaled by every multiplier that applies
+function edgeCost(weight: number, attributes: EdgeAttributes, profile: PersonaCostProfile): number {
+  let cost = weight * profile.catSightings[attributes.catSightings]
+  if (attributes.wellLit) cost *= profile.wellLit
+  if (attributes.landmarkRich) cost *= profile.landmarkRich
+  if (attributes.paved) cost *= profile.paved
+  if (attributes.shortcut) cost *= profile.shortcut
+  return cost
+}
+
+// Dijkstra from startId to endId; edgeCostFn returns null for edges that may not be used
+function searchGraph(
+  graph: WalkwayGraph,
+  startId: string,
+  endId: string,
+  edgeCostFn: (from: PathNode, to: PathNode, adjacency: WalkwayAdjacency) => number | null,
+): PathNode[] | null {
+  const costs = new Map<string, number>([[startId, 0]])
+  const previous = new Map<string, string>()
+  const visited = new Set<string>()
+  const queue: string[] = [startId]
+
+  while (queue.length > 0) {
+    // The graph is small, so a linear scan for the closest node is fast enough
+    let closestIndex = 0
+    for (let i = 1; i < queue.length; i++) {
+      if (costs.get(queue[i])! < costs.get(queue[closestIndex])!) {
+        closestIndex = i
+      }
+    }
+    const currentId = queue.splice(closestIndex, 1)[0]
+
+    if (currentId === endId) break
+    if (visited.has(currentId)) continue
+    visited.add(currentId)
+
+    // Locations are endpoints only - never walk through another building to get somewhere. Coming in from
+    // outside, the only way on is indoors; coming out from indoors, the door leads back onto the walkways.
+    const currentNode = graph.nodes.get(currentId)!
+    const passingThrough = currentId !== startId && currentNode.type === "location"
+    const cameFromIndoors = passingThrough && graph.nodes.get(previous.get(currentId)!)?.type === "indoor"
+
+    for (const adjacency of graph.adjacency.get(currentId) || []) {
+      if (visited.has(adjacency.to)) continue
+      if (passingThrough && !cameFromIndoors && graph.nodes.get(adjacency.to)!.type !== "indoor") continue
+
+      const cost = edgeCostFn(currentNode, graph.nodes.get(adjacency.to)!, adjacency)
+      if (cost === null) continue
+
+      const candidate = costs.get(currentId)! + cost
+      if (candidate < (costs.get(adjacency.to) ?? Number.POSITIVE_INFINITY)) {
+        costs.set(adjacency.to, candidate)
+        previous.set(adjacency.to, currentId)
+        queue.push(adjacency.to)
+      }
+    }
+  }
+
+  if (!previous.has(endId)) return null
+
+  const path: PathNode[] = []
+  let currentId: string | undefined = endId
+  while (currentId) {
+    path.unshift(graph.nodes.get(currentId)!)
+    currentId = previous.get(currentId)
+  }
+
+  console.log("[v0] Found path with", path.length, "points, cost", Math.round(costs.get(endId)!))
   return path
 }
 
-// Generate turn-by-turn directions from path
-export function generateDirections(path: PathNode[], persona: string): string[] {
-  if (path.length < 2) return []
+// Search a graph for a persona, penalising or avoiding active hazard zones. Zones at the named endpoints
+// can't be avoided, so they never block the route; "avoid" falls back to "penalise" when nothing else works.
+function searchWithHazards(
+  campus: CampusData,
+  graph: WalkwayGraph,
+  startId: string,
+  endId: string,
+  endpointNames: string[],
+  { persona = "faculty", avoidHazards = "off", time = new Date(), stepFree = false }: FindPathOptions,
+): PathNode[] | null {
+  const profile = personaCostProfiles[persona]
+  const zones =
+    avoidHazards === "off"
+      ? []
+      : getActiveHazardZones(campus, time).filter((zone) => !endpointNames.includes(zone.location.name))
+
+  const search = (mode: HazardAvoidance) =>
+    searchGraph(graph, startId, endId, (from, to, { weight, attributes }) => {
+      if (stepFree && !attributes.accessible) return null
+      const cost =
+        edgeCost(weight, attributes, profile) * (stepFree && (attributes.ramp || attributes.lift) ? STEP_FREE_AID : 1)
+      if (mode === "off" || segmentHazards(from, to, zones).length === 0) return cost
+      return mode === "avoid" ? null : cost * HAZARD_PENALTY
+    })
+
+  let path = search(zones.length > 0 ? avoidHazards : "off")
+  if (!path && avoidHazards === "avoid" && zones.length > 0) {
+    console.log("[v0] No hazard-free route, falling back to penalised hazards")
+    path = search("penalise")
+  }
+  return path
+}
+
+export function endpointName(campus: CampusData, endpoint: RouteEndpoint): string {
+  if (typeof endpoint === "string") return endpoint
+  if (isRoomRef(endpoint)) {
+    const found = findRoom(campus, endpoint)
+    return found ? `${found.room.name}, ${found.floor.name}` : `${endpoint.room} in ${endpoint.location}`
+  }
+  return endpoint.name ?? `${endpoint.lat.toFixed(5)}, ${endpoint.lng.toFixed(5)}`
+}
+
+// Where a map point's snapping leg meets the walkway
+export function isSnapNode(node: PathNode): boolean {
+  return node.id.startsWith("snap:")
+}
 
-  const directions: string[] = []
-  directions.push(`Start at ${path[0].name}`)
+interface WalkwaySnap {
+  from: PathNode
+  to: PathNode
+  walkway: WalkwayAdjacency
+  t: number // 0 at `from`, 1 at `to`
+  distance: number // meters from the point to the walkway
+}
 
-  for (let i = 0; i < path.length - 1; i++) {
-    const currentNode = path[i]
-    const nextNode = path[i + 1]
+// The walkway closest to a point, and where along it the point projects
+function nearestWalkway(graph: WalkwayGraph, point: MapPoint): WalkwaySnap | null {
+  let nearest: WalkwaySnap | null = null
 
-    const distance = calculateDistance(currentNode.lat, currentNode.lng, nextNode.lat, nextNode.lng)
-    const bearing = calculateBearing(currentNode.lat, currentNode.lng, nextNode.lat, nextNode.lng)
-    const direction = bearingToDirection(bearing)
+  for (const [fromId, edges] of graph.adjacency) {
+    for (const walkway of edges) {
+      // Every walkway is stored both ways round; look at each once
+      if (fromId > walkway.to) continue
 
-    if (i === 0) {
-      // First step
-      directions.push(`Head ${direction} for ${Math.round(distance)}m`)
-    } else if (i === path.length - 2) {
-      // Last step
-      directions.push(`Continue ${direction} for ${Math.round(distance)}m to reach ${nextNode.name}`)
-    } else {
-      // Middle steps
-      directions.push(`Continue ${direction} for ${Math.round(distance)}m`)
+      const from = graph.nodes.get(fromId)!
+      const to = graph.nodes.get(walkway.to)!
+      if (from.type === "indoor" || to.type === "indoor") continue
+      const { distance, t } = projectOntoSegment(point.lat, point.lng, from, to)
+      if (!nearest || distance < nearest.distance) {
+        nearest = { from, to, walkway, t, distance }
+      }
     }
+  }
+
+  return nearest
+}
+
+// Copy of the graph with a map point added: the nearest walkway is split where the point projects onto it,
+// and a straight snapping leg joins the two - even a point right on the walkway, so the directions always
+// say where the walk joins or leaves the walkways
+function withMapPoint(graph: WalkwayGraph, point: MapPoint, key: string): { graph: WalkwayGraph; id: string } | null {
+  const nearest = nearestWalkway(graph, point)
+  if (!nearest) return null
+
+  const { from, to, walkway, t, distance } = nearest
+  const name = point.name ?? "the selected point"
+
+  const snap: PathNode = {
+    id: `snap:${key}`,
+    lat: from.lat + (to.lat - from.lat) * t,
+    lng: from.lng + (to.lng - from.lng) * t,
+    name: "the walkway",
+    type: "waypoint",
+  }
+
+  const nodes = new Map(graph.nodes).set(snap.id, snap)
+  const adjacency = new Map(graph.adjacency)
+  const link = (a: string, b: string, weight: number, attributes: EdgeAttributes) => {
+    adjacency.set(a, [...(adjacency.get(a) || []), { to: b, weight, attributes }])
+    adjacency.set(b, [...(adjacency.get(b) || []), { to: a, weight, attributes }])
+  }
+
+  adjacency.set(
+    from.id,
+    adjacency.get(from.id)!.filter((edge) => edge.to !== to.id),
+  )
+  adjacency.set(
+    to.id,
+    adjacency.get(to.id)!.filter((edge) => edge.to !== from.id),
+  )
+  link(from.id, snap.id, walkway.weight * t, walkway.attributes)
+  link(snap.id, to.id, walkway.weight * (1 - t), walkway.attributes)
+
+  const pointNode: PathNode = { id: `point:${key}`, lat: point.lat, lng: point.lng, name, type: "waypoint" }
+  nodes.set(pointNode.id, pointNode)
+  link(pointNode.id, snap.id, distance, defaultEdgeAttributes)
+  return { graph: { nodes, adjacency }, id: pointNode.id }
+}
 
-    // Add persona-specific tips
-    if (persona === "new-student" && i === 0) {
-      directions.push(`💡 Tip: Look for landmarks along the way`)
-    } else if (persona === "cat-lover" && i === Math.floor(path.length / 2)) {
-      directions.push(`😻 Keep an eye out for campus cats!`)
-    } else if (persona === "cat-fearful" && i === 0) {
-      directions.push(`😰 Stay on well-lit paths`)
+// Snapping onto the very end of a walkway leaves a zero-length step; drop the junction the snap point lands on,
+// keeping endpoints and snap points so the snapping legs are still described. A map point and its snap point
+// always both stay, however close, as do indoor nodes and building doors, as floors stack on the same spot.
+function withoutRepeatedPoints(path: PathNode[]): PathNode[] {
+  const result: PathNode[] = []
+  const kept = (candidate: PathNode) => candidate.type === "indoor" || candidate.type === "location"
+  const pinned = (candidate: PathNode) => isSnapNode(candidate) || candidate.id.startsWith("point:")
+  path.forEach((node, index) => {
+    const last = result[result.length - 1]
+    if (
+      !last ||
+      kept(last) ||
+      kept(node) ||
+      (pinned(last) && pinned(node)) ||
+      calculateDistance(last.lat, last.lng, node.lat, node.lng) >= 0.5
+    ) {
+      result.push(node)
+    } else if (result.length > 1 && !isSnapNode(last) && (index === path.length - 1 || isSnapNode(node))) {
+      result[result.length - 1] = node
     }
+  })
+  return result
+}
+
+// Find the cheapest walkway route between two endpoints for a persona (Dijkstra over the walkway graph).
+// Endpoints are named locations, rooms inside buildings, or raw map points, which join the walkways at the nearest edge.
+// Active hazard zones are penalised or avoided; "avoid" falls back to "penalise" when no hazard-free route exists.
+export function findPath(
+  campus: CampusData,
+  start: RouteEndpoint,
+  end: RouteEndpoint,
+  options: FindPathOptions = {},
+): PathNode[] | null {
+  const [from, to] = [endpointName(campus, start), endpointName(campus, end)]
+  console.log("[v0] Finding", options.persona ?? "faculty", "path from", from, "to", to)
+
+  let graph = getWalkwayGraph(campus)
+  const endpointId = (endpoint: RouteEndpoint, key: string): string | null => {
+    if (typeof endpoint === "string" || isRoomRef(endpoint)) {
+      const id = typeof endpoint === "string" ? locationNodeId(endpoint) : roomNodeId(endpoint.location, endpoint.room)
+      return graph.nodes.has(id) ? id : null
+    }
+    const added = withMapPoint(graph, endpoint, key)
+    if (!added) return null
+    graph = added.graph
+    return added.id
   }
 
-  const totalDistance = path.reduce((sum, node, i) => {
-    if (i === 0) return 0
-    return sum + calculateDistance(path[i - 1].lat, path[i - 1].lng, node.lat, node.lng)
-  }, 0)
+  const startId = endpointId(start, "start")
+  const endId = endpointId(end, "end")
 
-  directions.push(`Arrive at ${path[path.length - 1].name}`)
-  directions.push(`📍 Total distance: ${Math.round(totalDistance)}m`)
+  if (!startId || !endId) {
+    console.log("[v0] Could not find locations")
+    return null
+  }
 
-  return directions
+  if (startId === endId) {
+    return [graph.nodes.get(startId)!]
+  }
+
+  // Rooms share their building's hazard zone, if it has one
+  const endpointNames = [start, end].flatMap((endpoint) =>
+    typeof endpoint === "string" ? [endpoint] : isRoomRef(endpoint) ? [endpoint.location] : [],
+  )
+  const path = searchWithHazards(campus, graph, startId, endId, endpointNames, options)
+  if (!path) {
+    console.log("[v0] No walkway connects these locations")
+    return null
+  }
+  return withoutRepeatedPoints(path)
 }
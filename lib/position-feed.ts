@@ -0,0 +1,121 @@
+// Position feeds - live GPS via watchPosition, or a simulated walk along a path for testing and demos
+
+import { calculateBearing, calculateDistance } from "./path-network"
+
+export interface TrackedPosition {
+  lat: number
+  lng: number
+  accuracy: number // meters
+  heading: number | null // degrees clockwise from north, null when unknown
+  timestamp: number
+}
+
+// Subscribe to position updates; returns a function that stops the feed
+export type PositionFeed = (
+  onPosition: (position: TrackedPosition) => void,
+  onError?: (message: string) => void,
+) => () => void
+
+// Below this much movement a derived heading is just GPS jitter
+const MIN_HEADING_MOVEMENT = 2
+
+export const geolocationFeed: PositionFeed = (onPosition, onError) => {
+  if (typeof navigator === "undefined" || !("geolocation" in navigator)) {
+    onError?.("Geolocation is not supported by this browser")
+    return () => {}
+  }
+
+  let previous: TrackedPosition | null = null
+
+  const watchId = navigator.geolocation.watchPosition(
+    (position) => {
+      const { latitude, longitude, accuracy, heading } = position.coords
+      let currentHeading = heading !== null && !Number.isNaN(heading) ? heading : null
+
+      // Many phones only report a heading while driving - derive one from movement instead
+      if (
+        currentHeading === null &&
+        previous &&
+        calculateDistance(previous.lat, previous.lng, latitude, longitude) >= MIN_HEADING_MOVEMENT
+      ) {
+        currentHeading = calculateBearing(previous.lat, previous.lng, latitude, longitude)
+      }
+
+      const tracked = {
+        lat: latitude,
+        lng: longitude,
+        accuracy,
+        heading: currentHeading,
+        timestamp: position.timestamp,
+      }
+      previous = tracked
+      onPosition(tracked)
+    },
+    (error) => onError?.(error.message),
+    { enableHighAccuracy: true, maximumAge: 2000 },
+  )
+
+  return () => navigator.geolocation.clearWatch(watchId)
+}
+
+interface SimulatedFeedOptions {
+  speed?: number // meters per second
+  intervalMs?: number
+  accuracy?: number // meters
+}
+
+// Walk along the given points at a steady pace, emitting a position every interval
+export function createSimulatedFeed(
+  points: { lat: number; lng: number }[],
+  { speed = 1.4, intervalMs = 1000, accuracy = 8 }: SimulatedFeedOptions = {},
+): PositionFeed {
+  return (onPosition, onError) => {
+    if (points.length === 0) {
+      onError?.("Nothing to simulate")
+      return () => {}
+    }
+
+    let segment = 0
+    let travelled = 0 // meters along the current segment
+
+    const emit = () => {
+      const from = points[segment]
+      const to = points[Math.min(segment + 1, points.length - 1)]
+      const length = calculateDistance(from.lat, from.lng, to.lat, to.lng)
+      const t = length === 0 ? 1 : Math.min(1, travelled / length)
+
+      onPosition({
+        lat: from.lat + (to.lat - from.lat) * t,
+        lng: from.lng + (to.lng - from.lng) * t,
+        accuracy,
+        heading: length === 0 ? null : calculateBearing(from.lat, from.lng, to.lat, to.lng),
+        timestamp: Date.now(),
+      })
+    }
+
+    const advance = () => {
+      travelled += (speed * intervalMs) / 1000
+      while (segment < points.length - 1) {
+        const from = points[segment]
+        const to = points[segment + 1]
+        const length = calculateDistance(from.lat, from.lng, to.lat, to.lng)
+        if (travelled < length) break
+        travelled -= length
+        segment++
+      }
+
+      if (segment >= points.length - 1) {
+        segment = points.length - 1
+        travelled = 0
+        emit()
+        clearInterval(timer)
+        return
+      }
+      emit()
+    }
+
+    emit()
+    const timer = setInterval(advance, intervalMs)
+    return () => clearInterval(timer)
+  }
+}
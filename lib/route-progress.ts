@@ -0,0 +1,85 @@
+// Route progress - where a tracked position sits along a route, and how far is left
+
+import { calculateDistance, projectOntoSegment, type PathNode } from "./path-network"
+import { DEFAULT_WALKING_SPEED } from "./walking-time"
+
+// Within this distance of the destination the walk counts as finished
+const ARRIVAL_RADIUS = 15
+
+// Further than this from the route line, the walker has left the route
+export const OFF_ROUTE_DISTANCE = 30
+
+export interface RouteProgress {
+  segmentIndex: number // segment (path[i] → path[i + 1]) closest to the position
+  distanceFromRoute: number // meters from the position to the route line
+  distanceAlong: number // meters walked along the route
+  remainingDistance: number // meters left to the destination
+  etaSeconds: number
+  arrived: boolean
+}
+
+export function computeRouteProgress(
+  path: PathNode[],
+  position: { lat: number; lng: number },
+  walkingSpeed: number = DEFAULT_WALKING_SPEED,
+): RouteProgress | null {
+  if (path.length === 0) return null
+
+  const destination = path[path.length - 1]
+  if (path.length === 1) {
+    const remainingDistance = calculateDistance(position.lat, position.lng, destination.lat, destination.lng)
+    return {
+      segmentIndex: 0,
+      distanceFromRoute: remainingDistance,
+      distanceAlong: 0,
+      remainingDistance,
+      etaSeconds: remainingDistance / walkingSpeed,
+      arrived: remainingDistance <= ARRIVAL_RADIUS,
+    }
+  }
+
+  const segmentLengths = path.slice(1).map((node, i) => calculateDistance(path[i].lat, path[i].lng, node.lat, node.lng))
+  const totalDistance = segmentLengths.reduce((sum, length) => sum + length, 0)
+
+  let best = { segmentIndex: 0, distance: Number.POSITIVE_INFINITY, t: 0 }
+  for (let i = 0; i < segmentLengths.length; i++) {
+    const { distance, t } = projectOntoSegment(position.lat, position.lng, path[i], path[i + 1])
+    // "<=" so a position at a junction counts towards the segment that follows it
+    if (distance <= best.distance) {
+      best = { segmentIndex: i, distance, t }
+    }
+  }
+
+  const distanceAlong =
+    segmentLengths.slice(0, best.segmentIndex).reduce((sum, length) => sum + length, 0) +
+    segmentLengths[best.segmentIndex] * best.t
+  const remainingDistance = Math.max(0, totalDistance - distanceAlong)
+
+  return {
+    segmentIndex: best.segmentIndex,
+    distanceFromRoute: best.distance,
+    distanceAlong,
+    remainingDistance,
+    etaSeconds: remainingDistance / walkingSpeed,
+    arrived: calculateDistance(position.lat, position.lng, destination.lat, destination.lng) <= ARRIVAL_RADIUS,
+  }
+}
+
+// Off route once the position is further from the line than both the threshold and the fix's own
+// accuracy, so a poor GPS fix alone doesn't trigger a reroute
+export function isOffRoute(progress: RouteProgress, accuracy: number = 0): boolean {
+  return !progress.arrived && progress.distanceFromRoute > Math.max(OFF_ROUTE_DISTANCE, accuracy)
+}
+
+// Index of the direction to show for a segment: the first line about that segment, or the last
+// line before it when a segment has no line of its own
+export function currentStepIndex(stepSegments: number[], segmentIndex: number): number {
+  const exact = stepSegments.findIndex((segment) => segment === segmentIndex)
+  if (exact !== -1) return exact
+
+  let index = 0
+  stepSegments.forEach((segment, i) => {
+    if (segment <= segmentIndex) index = i
+  })
+  return index
+}
@@ -0,0 +1,206 @@
+// Route resolver - prefers a campus's hand-authored routes, falls back to the walkway graph
+
+import type { CampusData, Persona, Route } from "./campus-data"
+import { generateDirectionSteps, segmentGeometry, type DirectionStep } from "./directions"
+import { getActiveHazardZones, type HazardAvoidance, type HazardZone } from "./hazards"
+import {
+  endpointName,
+  findPath,
+  isRoomRef,
+  pathDistance,
+  pathHazards,
+  segmentHazards,
+  type PathNode,
+  type RouteEndpoint,
+} from "./path-network"
+import { mobilityProfiles, pathDuration, walkingSpeed, type MobilityProfile } from "./walking-time"
+
+export type RouteSource = "curated" | "computed"
+
+export interface RouteOptions {
+  avoidHazards?: HazardAvoidance
+  time?: Date
+  mobility?: MobilityProfile
+  // Gate the walk comes onto campus by, for routes in from outside that start at the gate's location
+  entryGate?: string
+}
+
+export interface ResolvedRoute {
+  path: PathNode[]
+  steps: DirectionStep[]
+  // Seconds to walk the whole route at the persona's pace
+  duration: number
+  source: RouteSource
+}
+
+// Curated directions aren't tied to path segments, so spread them evenly along the walk
+function curatedNotes(texts: string[], path: PathNode[]): DirectionStep[] {
+  const segments = Math.max(1, path.length - 1)
+  return texts.map((text, step) => {
+    const segment = Math.min(segments - 1, Math.floor((step * segments) / texts.length))
+    return { type: "note", text, segment, geometry: segmentGeometry(path, segment) }
+  })
+}
+
+function summaryStep(campus: CampusData, path: PathNode[], speed: number): DirectionStep {
+  const lastSegment = Math.max(0, path.length - 2)
+  return {
+    type: "summary",
+    distance: pathDistance(path),
+    duration: pathDuration(campus, path, speed),
+    segment: lastSegment,
+    geometry: segmentGeometry(path, 0, lastSegment),
+  }
+}
+
+// Turn a curated route's raw coordinates into path nodes named after its endpoints
+function curatedPathNodes(route: Route, startName: string, endName: string): PathNode[] {
+  return route.path.map(([lat, lng], index) => {
+    const isStart = index === 0
+    const isEnd = index === route.path.length - 1
+
+    return {
+      id: `curated-${index}`,
+      lat,
+      lng,
+      name: isStart ? startName : isEnd ? endName : "Waypoint",
+      type: isStart || isEnd ? "location" : "waypoint",
+    }
+  })
+}
+
+function findCuratedRoute(
+  campus: CampusData,
+  start: string,
+  end: string,
+  persona: Persona,
+  speed: number,
+): ResolvedRoute | null {
+  const routes = campus.routes
+
+  const forward = routes.find((route) => route.start === start && route.end === end && route.persona === persona)
+  if (forward) {
+    const path = curatedPathNodes(forward, start, end)
+    const steps = [...curatedNotes(forward.directions, path), summaryStep(campus, path, speed)]
+    return { path, steps, duration: pathDuration(campus, path, speed), source: "curated" }
+  }
+
+  // The same curated walk, taken the other way round. Its hand-written directions only make sense walked
+  // forwards, so describe the reversed geometry with computed turns instead; hazards are added by the caller.
+  const reverse = routes.find((route) => route.start === end && route.end === start && route.persona === persona)
+  if (reverse) {
+    const path = curatedPathNodes(reverse, end, start).reverse()
+    const steps = generateDirectionSteps(campus, path, persona, [], speed)
+    return { path, steps, duration: pathDuration(campus, path, speed), source: "curated" }
+  }
+
+  return null
+}
+
+// Insert hazard warnings just before arriving, or the closing "📍 Total distance" summary when there's no arrival
+function withHazardWarnings(route: ResolvedRoute, zones: HazardZone[]): ResolvedRoute {
+  const { path } = route
+  const warnings: DirectionStep[] = pathHazards(path, zones).map((zone) => {
+    const segment = Math.max(
+      0,
+      path.findIndex((node, i) => i < path.length - 1 && segmentHazards(node, path[i + 1], [zone]).length > 0),
+    )
+    return { type: "warning", zone, segment, geometry: segmentGeometry(path, segment) }
+  })
+  if (warnings.length === 0) return route
+
+  const steps = [...route.steps]
+  const closing = steps.findIndex((step) => step.type === "arrive" || step.type === "summary")
+  steps.splice(closing === -1 ? steps.length : closing, 0, ...warnings)
+  return { ...route, steps }
+}
+
+// Open with coming in through the gate rather than starting at its location; curated routes have no start step
+function withEntryGate(route: ResolvedRoute, gate: string): ResolvedRoute {
+  const first = route.path[0]
+  const entry: DirectionStep = { type: "gate", gate, segment: -1, geometry: [[first.lat, first.lng]] }
+  const rest = route.steps[0]?.type === "start" ? route.steps.slice(1) : route.steps
+  return { ...route, steps: [entry, ...rest] }
+}
+
+// Step-free notes: a warning up front when the route couldn't avoid steps, and the destination's
+// accessible entrance just before arriving - or before going in, for a room inside the building
+function withAccessibilityNotes(
+  campus: CampusData,
+  steps: DirectionStep[],
+  end: RouteEndpoint,
+  stepFreeFound: boolean,
+): DirectionStep[] {
+  const result = [...steps]
+  if (!stepFreeFound) {
+    result.splice(1, 0, { type: "step-free-warning", segment: -1, geometry: [] })
+  }
+
+  const building = typeof end === "string" ? end : isRoomRef(end) ? end.location : undefined
+  const destination = campus.locations.find((location) => location.name === building)
+  if (destination?.accessibleEntrance) {
+    const entering = result.findIndex(
+      (step) => step.type === "building" && step.action === "enter" && step.place === destination.name,
+    )
+    const arrival = entering === -1 ? result.findIndex((step) => step.type === "arrive") : entering
+    result.splice(arrival === -1 ? result.length - 1 : arrival, 0, {
+      type: "entrance",
+      place: destination.name,
+      entrance: destination.accessibleEntrance,
+      segment: result[result.length - 1].segment,
+      geometry: [[destination.lat, destination.lng]],
+    })
+  }
+  return result
+}
+
+// Resolve a route for a persona: curated route if one exists (either direction), else computed.
+// Curated routes only join named locations; map points are always computed, snapping onto the walkways.
+// Curated routes that cross an active hazard are skipped whenever hazard avoidance is on, and curated
+// routes carry no accessibility data, so step-free walks are always computed. Routes in from an entry gate
+// open with "Enter via <gate>".
+export function resolveRoute(
+  campus: CampusData,
+  start: RouteEndpoint,
+  end: RouteEndpoint,
+  persona: Persona,
+  { avoidHazards = "off", time = new Date(), mobility = "standard", entryGate }: RouteOptions = {},
+): ResolvedRoute | null {
+  const activeZones = getActiveHazardZones(campus, time)
+  const speed = walkingSpeed(persona, mobility)
+  const { stepFree } = mobilityProfiles[mobility]
+  const curated =
+    typeof start === "string" && typeof end === "string" && !stepFree
+      ? findCuratedRoute(campus, start, end, persona, speed)
+      : null
+
+  if (curated) {
+    const avoidableZones = activeZones.filter((zone) => zone.location.name !== start && zone.location.name !== end)
+    if (avoidHazards === "off" || pathHazards(curated.path, avoidableZones).length === 0) {
+      console.log("[v0] Using curated", persona, "route from", start, "to", end)
+      const route = withHazardWarnings(curated, activeZones)
+      return entryGate ? withEntryGate(route, entryGate) : route
+    }
+    console.log("[v0] Curated route crosses an active hazard, computing a safer one")
+  }
+
+  let path = findPath(campus, start, end, { persona, avoidHazards, time, stepFree })
+  const stepFreeFound = !stepFree || path !== null
+  if (!path && stepFree) {
+    console.log("[v0] No step-free route, falling back to every walkway")
+    path = findPath(campus, start, end, { persona, avoidHazards, time })
+  }
+  if (!path || path.length === 0) {
+    console.log("[v0] No route from", endpointName(campus, start), "to", endpointName(campus, end))
+    return null
+  }
+
+  const steps = generateDirectionSteps(campus, path, persona, activeZones, speed)
+  const route: ResolvedRoute = {
+    path,
+    steps: stepFree ? withAccessibilityNotes(campus, steps, end, stepFreeFound) : steps,
+    duration: pathDuration(campus, path, speed),
+    source: "computed",
+  }
+  return entryGate ? withEntryGate(route, entryGate) : route
+}
@@ -0,0 +1,61 @@
+import { describe, expect, it } from "vitest"
+import { getCampus } from "./campuses"
+import { editDistance, expandSynonyms, searchLocations } from "./search"
+
+const { locations } = getCampus("adypu-lohegaon")!.data
+
+const topResult = (query: string) => searchLocations(query, locations)[0]
+
+describe("editDistance", () => {
+  it("counts an adjacent transposition as one edit", () => {
+    expect(editDistance("library", "lbirary")).toBe(1)
+  })
+
+  it("counts insertions, deletions and substitutions", () => {
+    expect(editDistance("pond", "pound")).toBe(1)
+    expect(editDistance("canteen", "cantin")).toBe(2)
+    expect(editDistance("", "gate")).toBe(4)
+  })
+})
+
+describe("expandSynonyms", () => {
+  it("expands a Hinglish word to the rest of its group", () => {
+    expect(expandSynonyms("khana")).toContain("canteen")
+  })
+
+  it("tolerates a typo in the word being expanded", () => {
+    expect(expandSynonyms("washrom")).toContain("toilet")
+  })
+})
+
+describe("searchLocations", () => {
+  it("ranks an exact name above tag and description matches", () => {
+    expect(topResult("library").location.name).toBe("Library")
+  })
+
+  it("finds a location despite typos", () => {
+    expect(topResult("lbirary").location.name).toBe("Library")
+    expect(topResult("swiming pool").location.name).toBe("Rajastani Pool")
+  })
+
+  it("finds a location through a synonym", () => {
+    expect(topResult("where is the loo").location.name).toBe("Pampers Point")
+  })
+
+  it("finds a room by its door code however it is typed", () => {
+    for (const query of ["B-204", "b204", "B 204"]) {
+      const result = topResult(query)
+      expect(result.location.name).toBe("Newton Ka Baccha")
+      expect(result.subLocation?.code).toBe("B-204")
+    }
+  })
+
+  it("prefers the building to one of its rooms for a general query", () => {
+    expect(topResult("physics").subLocation).toBeUndefined()
+  })
+
+  it("ignores filler words and returns nothing for an unrelated query", () => {
+    expect(searchLocations("where is the", locations)).toEqual([])
+    expect(searchLocations("xylophone", locations)).toEqual([])
+  })
+})
@@ -0,0 +1,248 @@
+// Location search - typo-tolerant, synonym- and Hinglish-aware ranking shared by the navigator and the map
+
+import type { Location, SubLocation } from "./campus-data"
+
+export interface SearchResult {
+  location: Location
+  // Set when the query names a room, department or office inside the location rather than the location itself
+  subLocation?: SubLocation
+  score: number
+}
+
+// Groups of interchangeable terms: a query word from a group also searches for every other member.
+// Includes informal campus names and common Hindi/Hinglish words students type.
+export const synonymGroups: string[][] = [
+  ["washroom", "restroom", "toilet", "bathroom", "loo", "pampers point", "shauchalay", "shauchalaya"],
+  [
+    "clinic",
+    "doctor",
+    "medical",
+    "hospital",
+    "nurse",
+    "first aid",
+    "not real doctors",
+    "dawakhana",
+    "davakhana",
+    "aspatal",
+    "aspataal",
+  ],
+  ["food", "canteen", "cafeteria", "mess", "eat", "khana", "khaana", "bhojan", "chai", "nashta", "snack"],
+  ["library", "books", "reading", "kitab", "kitaab", "pustakalay", "pustakalaya"],
+  ["study", "padhai", "padhna", "exam"],
+  ["physics", "science", "lab", "newton ka baccha", "vigyan"],
+  ["sports", "ground", "field", "khel", "maidan", "khelna"],
+  ["pool", "swimming", "swim", "tairaki", "tairna"],
+  ["pond", "lake", "talab", "talaab", "pani"],
+  ["parking", "vehicle", "gaadi", "gadi", "bike"],
+  ["entrance", "gate", "darwaza", "darwaaza", "main gate"],
+  ["hostel", "dorm", "residence", "chhatravas", "chatravas"],
+  ["romantic", "couples", "date", "love", "pyaar", "pyar", "ishq"],
+  ["snakes", "snake", "saanp", "sanp", "naag"],
+  ["men", "boys", "gents", "ladke", "gentle mens zone"],
+  ["mystery", "unknown", "secret", "rahasya"],
+]
+
+// Filler words in English and Hinglish that never identify a place
+const STOP_WORDS = new Set(
+  (
+    "a an the to of in on at is it me my i im and or for near some where what which how can could find show take " +
+    "get go want need place places spot there any please kahan kaha hai hain kya mujhe jana chahiye ka ki ke ko " +
+    "mein se aur koi kidhar batao"
+  ).split(" "),
+)
+
+// Field weights: a hit in the name says more than one in the tags, which says more than the description
+const NAME_WEIGHT = 4
+const TAG_WEIGHT = 3
+const TEXT_WEIGHT = 1
+// Bonus when the query contains a location's full name
+const FULL_NAME_BONUS = 10
+// Synonyms are good evidence, but weaker than the word the user actually typed
+const SYNONYM_FACTOR = 0.7
+// Bonus when the query contains a sub-location's door code, written "B-204", "B 204" or "b204"
+const CODE_BONUS = 20
+
+interface SearchDocument {
+  location: Location
+  subLocation?: SubLocation
+  fullName: string
+  nameTokens: string[]
+  tagTokens: string[]
+  textTokens: string[]
+  code?: RegExp
+  // Rooms, departments and offices inside the location, each searched on its own name, tags and code
+  subDocuments: SearchDocument[]
+}
+
+interface SearchQuery {
+  normalized: string
+  words: string[]
+  expansions: string[][]
+}
+
+export function normalize(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/[^a-z0-9\s-]/g, " ")
+    .replace(/\s+/g, " ")
+    .trim()
+}
+
+function tokenize(text: string): string[] {
+  return normalize(text)
+    .split(/[\s-]+/)
+    .filter((token) => token.length > 0)
+}
+
+// Optimal string alignment distance: Levenshtein plus adjacent transpositions ("lbirary")
+export function editDistance(a: string, b: string): number {
+  const rows = a.length + 1
+  const cols = b.length + 1
+  const d: number[][] = Array.from({ length: rows }, (_, i) =>
+    Array.from({ length: cols }, (_, j) => (i === 0 ? j : j === 0 ? i : 0)),
+  )
+
+  for (let i = 1; i < rows; i++) {
+    for (let j = 1; j < cols; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1
+      d[i][j] = Math.min(d[i - 1][j] + 1, d[i][j - 1] + 1, d[i - 1][j - 1] + cost)
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        d[i][j] = Math.min(d[i][j], d[i - 2][j - 2] + 1)
+      }
+    }
+  }
+  return d[a.length][b.length]
+}
+
+// How many typos a word of this length may carry and still match
+function allowedTypos(length: number): number {
+  if (length <= 3) return 0
+  if (length <= 6) return 1
+  return 2
+}
+
+// 1 for an exact word, less for a shared prefix or a near miss, 0 for no match
+function termMatch(term: string, token: string, fuzzy = true): number {
+  if (term === token) return 1
+  if (!fuzzy) return 0
+  // Plurals and partial words: "swim" → "swimming", "snacks" → "snack"
+  if (term.length >= 4 && token.length >= 4 && (token.startsWith(term) || term.startsWith(token))) return 0.8
+  if (Math.abs(term.length - token.length) <= allowedTypos(term.length)) {
+    if (editDistance(term, token) <= allowedTypos(term.length)) return 0.6
+  }
+  return 0
+}
+
+function bestMatch(term: string, tokens: string[], fuzzy: boolean): number {
+  return tokens.reduce((best, token) => Math.max(best, termMatch(term, token, fuzzy)), 0)
+}
+
+// Score of a single (possibly multi-word) term against one location. Synonyms are matched exactly:
+// fuzzing a word that was never typed only adds noise.
+function scoreTerm(term: string, document: SearchDocument, fuzzy = true): number {
+  if (term.includes(" ")) {
+    return document.fullName.includes(term) ? NAME_WEIGHT : 0
+  }
+  return Math.max(
+    NAME_WEIGHT * bestMatch(term, document.nameTokens, fuzzy),
+    TAG_WEIGHT * bestMatch(term, document.tagTokens, fuzzy),
+    TEXT_WEIGHT * bestMatch(term, document.textTokens, fuzzy),
+  )
+}
+
+// Other members of every synonym group the word belongs to (typos allowed)
+export function expandSynonyms(word: string): string[] {
+  return synonymGroups
+    .filter((group) => group.some((member) => !member.includes(" ") && termMatch(word, member) >= 0.6))
+    .flat()
+    .filter((member) => member !== word)
+}
+
+// Matches a door code however it is typed, but only as a whole word: "B-204" must not match "lab 2045"
+function codePattern(code: string): RegExp {
+  const parts = normalize(code).split(/[\s-]+/)
+  return new RegExp(`(^|[^a-z0-9])${parts.join("[\\s-]?")}($|[^a-z0-9])`)
+}
+
+const documentCache = new WeakMap<Location[], SearchDocument[]>()
+
+function getDocuments(locations: Location[]): SearchDocument[] {
+  const cached = documentCache.get(locations)
+  if (cached) return cached
+
+  const documents = locations.map((location) => ({
+    location,
+    fullName: normalize(location.name),
+    nameTokens: tokenize(location.name),
+    tagTokens: location.tags.flatMap(tokenize),
+    textTokens: tokenize(`${location.description} ${location.landmarks ?? ""}`),
+    subDocuments: (location.subLocations ?? []).map((subLocation) => ({
+      location,
+      subLocation,
+      fullName: normalize(subLocation.name),
+      nameTokens: tokenize(subLocation.name),
+      tagTokens: [subLocation.kind, ...(subLocation.tags ?? [])].flatMap(tokenize),
+      textTokens: [],
+      code: subLocation.code ? codePattern(subLocation.code) : undefined,
+      subDocuments: [],
+    })),
+  }))
+  documentCache.set(locations, documents)
+  return documents
+}
+
+function scoreDocument(document: SearchDocument, query: SearchQuery): number {
+  let score = query.normalized.includes(document.fullName) ? FULL_NAME_BONUS : 0
+  if (document.code?.test(query.normalized)) score += CODE_BONUS
+
+  query.words.forEach((word, i) => {
+    const direct = scoreTerm(word, document)
+    const viaSynonym = query.expansions[i].reduce(
+      (best, synonym) => Math.max(best, scoreTerm(synonym, document, false)),
+      0,
+    )
+    score += Math.max(direct, SYNONYM_FACTOR * viaSynonym)
+  })
+  return score
+}
+
+// Rank locations against a free-text query; only locations with some match are returned. A location is
+// found through one of its sub-locations when that matches clearly better - by a code, or by at least one
+// more name word - than the location itself, so "physics" still finds the science block, not one of its labs.
+export function searchLocations(query: string, locations: Location[]): SearchResult[] {
+  const words = tokenize(query).filter((word) => !STOP_WORDS.has(word))
+  const searchQuery = { normalized: normalize(query), words, expansions: words.map((word) => expandSynonyms(word)) }
+
+  return getDocuments(locations)
+    .map((document): SearchResult => {
+      const score = scoreDocument(document, searchQuery)
+      const best = document.subDocuments
+        .map((subDocument) => ({
+          location: document.location,
+          subLocation: subDocument.subLocation,
+          score: scoreDocument(subDocument, searchQuery),
+        }))
+        .reduce<SearchResult | null>((top, result) => (!top || result.score > top.score ? result : top), null)
+
+      return best && best.score >= score + NAME_WEIGHT ? best : { location: document.location, score }
+    })
+    .filter(({ score }) => score > 0)
+    .sort((a, b) => b.score - a.score)
+}
+
+// A sub-location with its code and floor, e.g. "Physics Lab 2 (B-204), 2nd floor"
+export function subLocationLabel(location: Location, subLocation: SubLocation): string {
+  const name = subLocation.code ? `${subLocation.name} (${subLocation.code})` : subLocation.name
+  if (subLocation.floor === undefined) return name
+
+  const floor =
+    location.indoor?.floors.find((candidate) => candidate.level === subLocation.floor)?.name ??
+    (subLocation.floor === 0 ? "ground floor" : `floor ${subLocation.floor}`)
+  return `${name}, ${floor.toLowerCase()}`
+}
+
+// Where a sub-location is, e.g. "Physics Lab 2 (B-204), 2nd floor of Newton Ka Baccha"
+export function describeSubLocation(location: Location, subLocation: SubLocation): string {
+  const joiner = subLocation.floor === undefined ? "in" : "of"
+  return `${subLocationLabel(location, subLocation)} ${joiner} ${location.name}`
+}
@@ -0,0 +1,56 @@
+import { describe, expect, it } from "vitest"
+import { getCampus } from "./campuses"
+import { optimiseStopOrder, planTrip } from "./trip-planner"
+
+// Stops along a line, named after their position on it
+const lineDistance = (from: string, to: string) => Math.abs(Number(from) - Number(to))
+
+describe("optimiseStopOrder", () => {
+  it("leaves two stops alone", () => {
+    expect(optimiseStopOrder(["5", "1"], lineDistance)).toEqual(["5", "1"])
+  })
+
+  it("keeps the first stop and finds the shortest order", () => {
+    expect(optimiseStopOrder(["0", "3", "1", "2"], lineDistance)).toEqual(["0", "1", "2", "3"])
+  })
+
+  it("orders many stops heuristically without losing any", () => {
+    const stops = ["0", "9", "4", "1", "8", "2", "7", "3", "6", "5"]
+    const order = optimiseStopOrder(stops, lineDistance)
+    expect(order[0]).toBe("0")
+    expect([...order].sort()).toEqual([...stops].sort())
+    expect(order).toEqual(["0", "1", "2", "3", "4", "5", "6", "7", "8", "9"])
+  })
+})
+
+describe("planTrip", () => {
+  const campus = getCampus("adypu-lohegaon")!.data
+
+  it("needs at least two stops", () => {
+    expect(planTrip(campus, ["Library"], "faculty")).toBeNull()
+  })
+
+  it("chains one leg per pair of stops into a single path", () => {
+    const trip = planTrip(campus, ["Main Entrance", "Library", "Foodie Zone"], "faculty")!
+    expect(trip.legs.map((leg) => [leg.from, leg.to])).toEqual([
+      ["Main Entrance", "Library"],
+      ["Library", "Foodie Zone"],
+    ])
+    expect(trip.path[0].name).toBe("Main Entrance")
+    expect(trip.path[trip.path.length - 1].name).toBe("Foodie Zone")
+    expect(trip.totalDistance).toBeCloseTo(trip.legs[0].distance + trip.legs[1].distance)
+  })
+
+  it("skips a stop repeated back to back", () => {
+    const trip = planTrip(campus, ["Library", "Library", "Foodie Zone"], "faculty")!
+    expect(trip.legs).toHaveLength(1)
+  })
+
+  it("never makes the walk longer when optimising the order", () => {
+    const stops = ["Main Entrance", "Sports Ground", "Library", "Parking Lot"]
+    const planned = planTrip(campus, stops, "faculty")!
+    const optimised = planTrip(campus, stops, "faculty", { optimiseOrder: true })!
+    expect(optimised.stops[0]).toBe("Main Entrance")
+    expect(optimised.totalDistance).toBeLessThanOrEqual(planned.totalDistance)
+  })
+})
@@ -0,0 +1,138 @@
+// Multi-stop trip planning - chains resolved routes between an ordered list of stops
+
+import type { CampusData, Persona } from "./campus-data"
+import { pathDistance, type PathNode } from "./path-network"
+import { resolveRoute, type ResolvedRoute, type RouteOptions } from "./route-resolver"
+
+export interface TripLeg {
+  from: string
+  to: string
+  route: ResolvedRoute
+  distance: number
+  duration: number // seconds
+}
+
+export interface Trip {
+  stops: string[]
+  legs: TripLeg[]
+  path: PathNode[]
+  totalDistance: number
+  totalDuration: number // seconds
+}
+
+export interface TripOptions extends RouteOptions {
+  optimiseOrder?: boolean
+}
+
+// Above this many stops to reorder, brute force gives way to nearest-neighbour + 2-opt
+const MAX_EXACT_STOPS = 7
+
+function permutations<T>(items: T[]): T[][] {
+  if (items.length <= 1) return [items]
+  return items.flatMap((item, i) =>
+    permutations([...items.slice(0, i), ...items.slice(i + 1)]).map((rest) => [item, ...rest]),
+  )
+}
+
+// Reorder stops for the shortest total walk. The first stop stays the starting point; the rest,
+// including the final one, may be visited in any order.
+export function optimiseStopOrder(stops: string[], legDistance: (from: string, to: string) => number): string[] {
+  if (stops.length < 3) return stops
+
+  const [start, ...rest] = stops
+  const tourLength = (order: string[]) =>
+    order.reduce((sum, stop, i) => (i === 0 ? 0 : sum + legDistance(order[i - 1], stop)), 0)
+
+  if (rest.length <= MAX_EXACT_STOPS) {
+    let best = stops
+    let bestLength = tourLength(stops)
+    permutations(rest).forEach((order) => {
+      const candidate = [start, ...order]
+      const length = tourLength(candidate)
+      if (length < bestLength) {
+        best = candidate
+        bestLength = length
+      }
+    })
+    return best
+  }
+
+  // Nearest neighbour to get a reasonable tour...
+  const order = [start]
+  const remaining = [...rest]
+  while (remaining.length > 0) {
+    const last = order[order.length - 1]
+    let nearestIndex = 0
+    remaining.forEach((stop, i) => {
+      if (legDistance(last, stop) < legDistance(last, remaining[nearestIndex])) nearestIndex = i
+    })
+    order.push(...remaining.splice(nearestIndex, 1))
+  }
+
+  // ...then 2-opt: reverse any stretch that shortens the walk, until nothing improves
+  let improved = true
+  while (improved) {
+    improved = false
+    for (let i = 1; i < order.length - 1; i++) {
+      for (let j = i + 1; j < order.length; j++) {
+        const candidate = [...order.slice(0, i), ...order.slice(i, j + 1).reverse(), ...order.slice(j + 1)]
+        if (tourLength(candidate) < tourLength(order)) {
+          order.splice(0, order.length, ...candidate)
+          improved = true
+        }
+      }
+    }
+  }
+  return order
+}
+
+// Plan a walk through every stop in order (or the optimised order), one resolved route per leg
+export function planTrip(
+  campus: CampusData,
+  stops: string[],
+  persona: Persona,
+  options: TripOptions = {},
+): Trip | null {
+  const { optimiseOrder = false, ...routeOptions } = options
+  if (stops.length < 2) return null
+
+  const routeCache = new Map<string, ResolvedRoute | null>()
+  const legRoute = (from: string, to: string) => {
+    const key = `${from}→${to}`
+    if (!routeCache.has(key)) {
+      routeCache.set(key, resolveRoute(campus, from, to, persona, routeOptions))
+    }
+    return routeCache.get(key)!
+  }
+  const legDistance = (from: string, to: string) => {
+    const route = legRoute(from, to)
+    return route ? pathDistance(route.path) : Number.POSITIVE_INFINITY
+  }
+
+  const orderedStops = optimiseOrder ? optimiseStopOrder(stops, legDistance) : stops
+  const legs: TripLeg[] = []
+
+  for (let i = 0; i < orderedStops.length - 1; i++) {
+    const from = orderedStops[i]
+    const to = orderedStops[i + 1]
+    if (from === to) continue
+
+    const route = legRoute(from, to)
+    if (!route) {
+      console.log("[v0] No route for trip leg", from, "→", to)
+      return null
+    }
+    legs.push({ from, to, route, distance: pathDistance(route.path), duration: route.duration })
+  }
+
+  // Stitch the legs together, dropping each leg's first node since it repeats the previous leg's last
+  const path = legs.flatMap((leg, i) => (i === 0 ? leg.route.path : leg.route.path.slice(1)))
+
+  return {
+    stops: orderedStops,
+    legs,
+    path,
+    totalDistance: legs.reduce((sum, leg) => sum + leg.distance, 0),
+    totalDuration: legs.reduce((sum, leg) => sum + leg.duration, 0),
+  }
+}
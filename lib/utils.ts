@@ -4,3 +4,10 @@ import { twMerge } from 'tailwind-merge'
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs))
 }
+
+const htmlEntities: Record<string, string> = { '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' }
+
+// Escape editable text before it goes into HTML strings, e.g. Leaflet popups, tooltips and marker icons
+export function escapeHtml(text: string) {
+  return text.replace(/[&<>"']/g, (char) => htmlEntities[char])
+}
@@ -0,0 +1,68 @@
+// Walking time - how fast each persona and mobility profile covers the campus walkways
+
+import type { CampusData, Persona } from "./campus-data"
+import type { Arrival } from "./geofence"
+import { calculateDistance, segmentAttributes, type PathNode } from "./path-network"
+
+export type MobilityProfile = "standard" | "unhurried" | "mobility-aid" | "step-free"
+
+// Who is walking: sets the route preferences and the pace, and which gates they can come onto campus by
+export interface TravelProfile {
+  persona: Persona
+  mobility: MobilityProfile
+  arrival: Arrival
+}
+
+// Average walking pace in meters per second, when nothing more is known about the walker
+export const DEFAULT_WALKING_SPEED = 1.3
+
+// Typical walking pace in meters per second, including the stops each persona tends to make
+export const personaWalkingSpeeds: Record<Persona, number> = {
+  faculty: 1.5, // brisk, knows exactly where they're going
+  "new-student": 1.0, // slower, stops to check the map and take in landmarks
+  "cat-lover": 1.1, // pauses to greet every cat
+  "cat-fearful": 1.3, // steady, keeps moving past the cat spots
+}
+
+// Extra seconds for a flight of stairs or a kerb, and for a ramp
+const STAIRS_DELAY = 10
+const RAMP_DELAY = 5
+
+// Seconds to climb one floor of a building's stairs at the default pace, and to wait for and ride the lift
+const FLOOR_CLIMB = 20
+const LIFT_DELAY = 40
+
+// stepFree profiles are routed over accessible walkways only
+export const mobilityProfiles: Record<MobilityProfile, { label: string; speedFactor: number; stepFree: boolean }> = {
+  standard: { label: "Standard pace", speedFactor: 1, stepFree: false },
+  unhurried: { label: "Unhurried pace", speedFactor: 0.75, stepFree: false },
+  "mobility-aid": { label: "Mobility aid", speedFactor: 0.6, stepFree: false },
+  "step-free": { label: "♿ Wheelchair / step-free", speedFactor: 0.8, stepFree: true },
+}
+
+export function walkingSpeed(persona: Persona, mobility: MobilityProfile = "standard"): number {
+  return personaWalkingSpeeds[persona] * mobilityProfiles[mobility].speedFactor
+}
+
+// Seconds to walk from one path node to the next, including time for any stairs or ramp between them;
+// between floors of a building, the time the stairs or lift take
+export function segmentDuration(campus: CampusData, from: PathNode, to: PathNode, speed: number): number {
+  const attributes = segmentAttributes(campus, from, to)
+  if (from.indoor && to.indoor && from.indoor.level !== to.indoor.level) {
+    const floors = Math.abs(to.indoor.level - from.indoor.level)
+    return attributes?.lift ? LIFT_DELAY : (floors * FLOOR_CLIMB * DEFAULT_WALKING_SPEED) / speed
+  }
+  const delay = (attributes?.steps ? STAIRS_DELAY : 0) + (attributes?.ramp ? RAMP_DELAY : 0)
+  return calculateDistance(from.lat, from.lng, to.lat, to.lng) / speed + delay
+}
+
+export function pathDuration(campus: CampusData, path: PathNode[], speed: number): number {
+  return path.slice(1).reduce((sum, node, i) => sum + segmentDuration(campus, path[i], node, speed), 0)
+}
+
+export function formatDuration(seconds: number): string {
+  const minutes = Math.round(seconds / 60)
+  if (minutes < 1) return "under a minute"
+  if (minutes < 60) return `${minutes} min`
+  return `${Math.floor(minutes / 60)} h ${minutes % 60} min`
+}